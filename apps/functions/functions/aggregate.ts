@@ -1,6 +1,7 @@
 import { app, HttpRequest, HttpResponseInit } from "@azure/functions";
-import { Pinecone } from "@pinecone-database/pinecone";
 import { embedText } from "../shared/openai";
+import { getRedactor } from "../shared/redaction";
+import { collapseChunkMatches, getVectorStore } from "../shared/vectorStore";
 
 // POST /api/aggregate
 // Body: { grantId, query, topK=50, types?, threadId?, dateFrom?, dateTo?, bucket?, groupBy="from_domain" }
@@ -24,12 +25,9 @@ app.http("aggregate", {
       } = body || {};
 
       if (!grantId || !query) return { status: 400, body: "grantId and query required" };
-      if (!process.env.PINECONE_API_KEY) return { status: 500, body: "Missing PINECONE_API_KEY" };
-      if (!process.env.PINECONE_INDEX_NAME) return { status: 500, body: "Missing PINECONE_INDEX_NAME" };
 
-      const pc = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
-      const index = pc.index(process.env.PINECONE_INDEX_NAME!);
-      const vec = await embedText(String(query));
+      const store = getVectorStore();
+      const vec = await embedText({ grantId: String(grantId), redactor: await getRedactor(String(grantId)) }, String(query));
 
       const filter: Record<string, any> = {};
       const normalizeTypes = (arr?: string[]) => {
@@ -38,7 +36,7 @@ app.http("aggregate", {
         for (const t of arr) {
           switch (t) {
             case "message":
-              out.add("message"); out.add("email"); break; // legacy compatibility
+              out.add("message"); out.add("email"); out.add("message_chunk"); break; // legacy compatibility + body chunks
             case "thread_day":
               out.add("thread_day"); out.add("summary_day"); break;
             case "thread_week":
@@ -61,8 +59,7 @@ app.http("aggregate", {
         if (dateTo) filter.date_created["$lte"] = dateTo;
       }
 
-      const ns = index.namespace(String(grantId));
-      const resp = await ns.query({
+      const hits = await store.query(String(grantId), {
         vector: vec,
         topK: Math.min(Number(topK) || 50, 1000),
         includeMetadata: true,
@@ -75,7 +72,8 @@ app.http("aggregate", {
         return m ? m[1].toLowerCase() : "";
       };
 
-      for (const m of resp.matches || []) {
+      // Count each message once even when several of its body chunks matched
+      for (const m of collapseChunkMatches(hits)) {
         const md = (m.metadata as any) || {};
         if (groupBy === "from_domain") {
           const d = toDomain(md.from);
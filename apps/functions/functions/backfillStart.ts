@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { enqueueBackfill, BackfillJob } from "../shared/bus";
+import { resetSyncStatus } from "../shared/storage";
 
 function monthsAgoToEpochSeconds(months: number): number {
   const d = new Date();
@@ -22,13 +23,14 @@ app.http("backfillStart", {
       const max = body?.max ?? 10000;
       const sinceEpoch = monthsAgoToEpochSeconds(months);
 
-      const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0 };
+      const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0, kind: "backfill" };
       await enqueueBackfill(job);
+      await resetSyncStatus(grantId, "backfill", "queued", sinceEpoch, max);
 
       ctx.log(`Enqueued backfill for grantId=${grantId} since=${sinceEpoch} max=${max}`);
       return {
         status: 202,
-        jsonBody: { ok: true, grantId, sinceEpoch, max, message: "Backfill enqueued" },
+        jsonBody: { ok: true, grantId, sinceEpoch, max, message: "Backfill enqueued", statusUrl: `/api/sync/status/${encodeURIComponent(grantId)}` },
       };
     } catch (err: any) {
       ctx.error?.("backfillStart error", err);
@@ -1,15 +1,25 @@
 import { app, InvocationContext } from "@azure/functions";
-import { BackfillJob, enqueueBackfill } from "../shared/bus";
-import { listMessages, NylasApiError, NylasMessage, downloadAttachment } from "../shared/nylas";
-import { cleanText, embedText, summarizeNotes, analyzeImageBuffer, analyzePdfBuffer, summarizeLongTextMapReduce } from "../shared/openai";
-import { upsertVectors } from "../shared/pinecone";
-import { saveCleanText, saveAttachment, appendDayNote, loadDayNotes, saveSummary, setCheckpoint } from "../shared/storage";
-import { dayKeyFromEpoch, weekKeyFromEpoch, monthKeyFromEpoch } from "../shared/shard";
-import type { RecordMetadata } from "@pinecone-database/pinecone";
+import { BackfillJob, BACKFILL_QUEUE, enqueueBackfill, enqueueRollup, getJobQueue } from "../shared/bus";
+import { listMessages, NylasApiError, NylasMessage } from "../shared/nylas";
+import { processMessageAttachments, attachmentLimitsFromEnv } from "../shared/attachments";
+import { normalizeEmailBody } from "../shared/emailText";
+import { chunkText, embedTexts, summarizeNotes, summarizeLongTextMapReduce, aiCacheSnapshot, formatAiCacheDelta, type AiScope } from "../shared/openai";
+import { getVectorStore, type VectorMetadata } from "../shared/vectorStore";
+import { saveCleanText, replaceDayNote, replaceThreadNote, loadThreadNotes, saveSummary, setCheckpoint, contentHash, loadMessageLedger, saveMessageLedger, markRollupsDirty, recordFailedJob, resetSyncStatus, updateSyncStatus, getSyncControl, holdPausedJob, isCancelled, syncKindOf, loadPendingDelta, savePendingDelta, claimPendingDelta, getGrantLifecycle, type LedgerEntry } from "../shared/storage";
+import { dayKeyFromEpoch, weekKeyFromDayKey } from "../shared/shard";
+import { getGrant, recordGrantSync } from "../shared/grantRegistry";
+import { formatRedactionCounts, getRedactor } from "../shared/redaction";
 
 
 const BACKOFF_SECONDS = [10, 20, 40, 80, 160, 300] as const; // max 6 attempts
 const SMOOTH_DELAY_SECONDS = 0.2; // 200ms between pages
+const ROLLUP_DEBOUNCE_SECONDS = Number(process.env.ROLLUP_DEBOUNCE_SECONDS || 60);
+const WEBHOOK_DEBOUNCE_SECONDS = Number(process.env.WEBHOOK_DEBOUNCE_SECONDS || 30);
+const WEBHOOK_MAX_WAIT_SECONDS = Number(process.env.WEBHOOK_MAX_WAIT_SECONDS || 300);
+const attachmentLimits = attachmentLimitsFromEnv();
+const BODY_CHUNK_CHARS = Number(process.env.BODY_CHUNK_CHARS || 3500);
+const BODY_CHUNK_OVERLAP = Number(process.env.BODY_CHUNK_OVERLAP || 400);
+const BODY_MAX_CHUNKS = Number(process.env.BODY_MAX_CHUNKS || 20);
 
 function parseJob(raw: unknown): BackfillJob {
   if (typeof raw === "string") return JSON.parse(raw) as BackfillJob;
@@ -21,280 +31,475 @@ function toFirstEmails(addrs?: { email: string }[], max = 3): string[] {
   return addrs.map(a => a?.email).filter(Boolean).slice(0, max) as string[];
 }
 
-app.serviceBusQueue("backfillWorker", {
-  connection: "SERVICEBUS_CONNECTION",
-  queueName: process.env.SB_QUEUE_BACKFILL || "nylas-backfill",
-  isSessionsEnabled: true,
-  handler: async (message: unknown, ctx: InvocationContext): Promise<void> => {
-    const job = parseJob(message);
-    const attempt = job.attempt ?? 0;
-    const processedSoFar = job.processed ?? 0;
-    const corr = `${job.grantId}:${job.pageToken || "start"}:a${attempt}`;
-    const t0 = Date.now();
-
-    try {
-      ctx.log(`bf.start corr=${corr} processed=${processedSoFar} max=${job.max}`);
-
-      const { messages, nextCursor } = await listMessages({
-        grantId: job.grantId,
-        sinceEpoch: job.sinceEpoch,
-        pageToken: job.pageToken,
-        limit: 200,
-      });
-      ctx.log(`bf.page corr=${corr} messages=${messages.length} next=${nextCursor || "-"}`);
+// Hash of the fields that feed the summary and where its note is filed; flags like unread are deliberately excluded.
+// The date is included so a message whose date changes (e.g. a draft sent later) is reprocessed and its note moves.
+function messageContentHash(msg: NylasMessage): string {
+  const attIds = (msg.attachments || []).map(a => a?.id || "").join(",");
+  return contentHash(
+    String(msg.date ?? ""),
+    msg.subject || "",
+    toFirstEmails(msg.from, 10).join(","),
+    toFirstEmails(msg.to, 50).join(","),
+    msg.body || "",
+    attIds
+  );
+}
 
-      // Prepare vectors + storage + day notes
-      const vectors: { id: string; values: number[]; metadata: RecordMetadata }[] = [];
-      const dayKeysSeen = new Set<string>();
+type PendingVector = { id: string; text: string; metadata: VectorMetadata; messageId?: string };
 
-      const threadNotes = new Map<string, any[]>();
+// Embed a page's worth of vectors in a few batched requests (order preserved)
+async function embedPending(ai: AiScope, pending: PendingVector[], corr: string, ctx: InvocationContext) {
+  if (!pending.length) return [];
+  const t0 = Date.now();
+  const values = await embedTexts(ai, pending.map(p => p.text));
+  ctx.log(`bf.embed corr=${corr} inputs=${pending.length} took_ms=${Date.now() - t0}`);
+  return pending.map((p, i) => ({ id: p.id, values: values[i], metadata: p.metadata }));
+}
 
-      let maxEpochPage = 0;
-      for (const msg of messages as NylasMessage[]) {
-        const epoch = msg.date || Math.floor(Date.now() / 1000);
-        if (Number.isFinite(epoch)) maxEpochPage = Math.max(maxEpochPage, epoch);
-        const dayKey = dayKeyFromEpoch(epoch);
-        dayKeysSeen.add(dayKey);
-        const dateIso = new Date(epoch * 1000).toISOString();
-        let attachmentAnalyses: string[] = [];
+async function captureFailure(job: BackfillJob, error: string, corr: string, ctx: InvocationContext): Promise<void> {
+  try {
+    const rec = await recordFailedJob(job.grantId, job, error);
+    ctx.log(`bf.deadletter corr=${corr} id=${rec.id}`);
+    await updateSyncStatus(job.grantId, syncKindOf(job), () => ({
+      state: "failed",
+      finishedAt: new Date().toISOString(),
+      lastCursor: job.pageToken || null,
+      lastError: error,
+    }));
+  } catch (e: any) {
+    ctx.error?.(`bf.deadletter.fail corr=${corr} err=${e?.message || e}`);
+  }
+}
 
+/**
+ * Honor operator pause/cancel. Returns true when the caller must stop: the chain was cancelled,
+ * or the grant is paused and `hold` has been stored for resume (merged with an already held job of the same kind).
+ */
+async function stopForControl(job: BackfillJob, hold: BackfillJob, corr: string, ctx: InvocationContext): Promise<boolean> {
+  const control = await getSyncControl(job.grantId);
+  if (isCancelled(control, job)) {
+    ctx.log(`bf.cancelled corr=${corr}`);
+    await updateSyncStatus(job.grantId, syncKindOf(job), () => ({ state: "cancelled", finishedAt: new Date().toISOString(), lastCursor: hold.pageToken || null }));
+    return true;
+  }
+  if (control.state === "paused") {
+    const { result, job: held } = await holdPausedJob(job.grantId, hold);
+    // Resumed or cancelled in the meantime: decide again on the current state
+    if (result === "not_paused") return stopForControl(job, hold, corr, ctx);
+    ctx.log(`bf.paused corr=${corr} ${result}=${held.pageToken || "start"} since=${held.sinceEpoch} processed=${held.processed ?? 0}`);
+    await updateSyncStatus(job.grantId, syncKindOf(job), () => ({ state: "paused", lastCursor: held.pageToken || null }));
+    return true;
+  }
+  return false;
+}
 
-        const text = cleanText(msg.body || "");
-        if (text) {
-          await saveCleanText(job.grantId, msg.id, text);
-        }
+/**
+ * Turn a coalesced webhook delta into a plain delta over the grant's pending window. Returns null when there
+ * is nothing to run now: the window was already claimed, or notifications are still arriving (job re-enqueued).
+ */
+async function claimCoalescedDelta(job: BackfillJob, ctx: InvocationContext): Promise<BackfillJob | null> {
+  const now = Date.now();
+  const pending = await loadPendingDelta(job.grantId);
+  if (!pending) {
+    ctx.log(`bf.coalesce.skip grant=${job.grantId} reason=nothing_pending`);
+    return null;
+  }
+
+  // Still bursting: push the delta out until notifications stop (bounded by max wait)
+  const quietMs = now - pending.lastAt;
+  const waitedMs = now - pending.firstAt;
+  if (quietMs < WEBHOOK_DEBOUNCE_SECONDS * 1000 && waitedMs < WEBHOOK_MAX_WAIT_SECONDS * 1000) {
+    const delay = Math.max(1, Math.ceil(WEBHOOK_DEBOUNCE_SECONDS - quietMs / 1000));
+    await savePendingDelta(job.grantId, { ...pending, scheduledFor: now + delay * 1000 });
+    await enqueueBackfill(job, delay);
+    ctx.log(`bf.coalesce.defer grant=${job.grantId} delay_s=${delay} events=${pending.events} quiet_ms=${quietMs} waited_ms=${waitedMs}`);
+    return null;
+  }
+
+  const claimed = await claimPendingDelta(job.grantId);
+  if (!claimed) return null;
+  ctx.log(`bf.coalesce.claim grant=${job.grantId} events=${claimed.events} messages=${claimed.messageIds.length} since=${claimed.sinceEpoch} waited_ms=${now - claimed.firstAt}`);
+  return { grantId: job.grantId, sinceEpoch: claimed.sinceEpoch, max: job.max, processed: 0, attempt: 0, enqueuedAt: job.enqueuedAt, kind: "delta" };
+}
 
-        // Attachments
-        if (Array.isArray(msg.attachments) && msg.attachments.length) {
-          for (const a of msg.attachments) {
-            // Some Nylas payloads include id/content_type/filename
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const att: any = a as any;
-            const attId: string = att?.id || att?.attachment_id || "";
-            if (!attId) continue;
-            try {
-              const { content, contentType, filename } = await downloadAttachment(job.grantId, msg.id, attId);
-              const fname = filename || `${attId}`;
-              await saveAttachment(job.grantId, msg.id, fname, content, contentType);
-
-              let analysis: string | null = null;
-              if (contentType?.startsWith("image/")) {
-                analysis = await analyzeImageBuffer(content, contentType, fname);
-              } else if (contentType === "application/pdf") {
-                analysis = await analyzePdfBuffer(content, fname);
-              }
-
-              if (analysis) {
-                // Collect for inclusion in message-level summary
-                attachmentAnalyses.push(`Attachment "${fname}": ${analysis}`);
-                const vec = await embedText(analysis);
-                const meta: RecordMetadata = {
-                  type: "attachment_file",
-                  grant_id: job.grantId,
-                  message_id: msg.id,
-                  thread_id: msg.thread_id || "",
-                  filename: fname,
-                  content_type: contentType || "",
-                  date_created: dateIso,
-                  date: epoch,
-                } as unknown as RecordMetadata;
-                vectors.push({ id: `file:${msg.id}:${attId}`, values: vec, metadata: meta });
-              }
-            } catch (e: any) {
-              ctx.warn?.(`bf.attach.fail corr=${corr} msg_id=${msg.id} att=${attId} err=${e?.message || e}`);
-            }
-          }
-        }
-        // Build message-level summary (map-reduce over body + attachment analyses), then embed
-        const fromEmail = (msg.from && msg.from[0]?.email) || "";
-        const fromDomain = (fromEmail.match(/@([^> ]+)/)?.[1] || "").toLowerCase();
-        const combinedForSummary = [
-          text || "",
-          attachmentAnalyses.length ? ("\n\n" + attachmentAnalyses.join("\n")) : "",
-        ].join("");
-
-        if (combinedForSummary.trim().length) {
-          const hint = `Message summary for subject: ${msg.subject || "(no subject)"}`;
-          const messageSummary = await summarizeLongTextMapReduce(combinedForSummary, hint);
-
-
-          const embedding = await embedText(messageSummary);
-          const id = `msg:${msg.id}`;
-          const metadata: RecordMetadata = {
-            type: "message",
-            grant_id: job.grantId,
-            thread_id: msg.thread_id || "",
-            subject: msg.subject || "",
-            from: fromEmail,
-            from_domain: fromDomain,
-            to: toFirstEmails(msg.to, 3),
-            date_created: dateIso,
-            date: epoch,
-            snippet: messageSummary.slice(0, 240),
-            has_attachments: Array.isArray(msg.attachments) && msg.attachments.length > 0,
-            unread: Boolean(msg.unread),
-          } as unknown as RecordMetadata;
-          vectors.push({ id, values: embedding, metadata });
-
-          // Append to day note using the summary excerpt
-          await appendDayNote(job.grantId, msg.thread_id, dayKey, {
-            messageId: msg.id,
-            date_iso: dateIso,
-            from: fromEmail,
-            to: toFirstEmails(msg.to, 5),
-            subject: msg.subject || "",
-            excerpt: messageSummary.slice(0, 240),
-          });
+export async function handleBackfillMessage(message: unknown, ctx: InvocationContext): Promise<void> {
+  const queued = parseJob(message);
+  // Expired/deleted grants: drop the job rather than fetch with a dead grant or re-ingest purged data
+  const lifecycle = await getGrantLifecycle(queued.grantId);
+  if (lifecycle) {
+    ctx.log(`bf.skip grant=${queued.grantId} reason=grant_${lifecycle.state} since=${lifecycle.at}`);
+    return;
+  }
+  const registered = await getGrant(queued.grantId);
+  if (registered && !registered.enabled) {
+    ctx.log(`bf.skip grant=${queued.grantId} reason=grant_disabled since=${registered.disabledAt || "-"}`);
+    return;
+  }
+  const job = queued.coalesced ? await claimCoalescedDelta(queued, ctx) : queued;
+  if (!job) return;
+  const attempt = job.attempt ?? 0;
+  const processedSoFar = job.processed ?? 0;
+  const corr = `${job.grantId}:${job.pageToken || "start"}:a${attempt}`;
+  const t0 = Date.now();
+  const cacheBefore = aiCacheSnapshot();
+
+  try {
+    ctx.log(`bf.start corr=${corr} processed=${processedSoFar} max=${job.max}`);
+    if (await stopForControl(job, job, corr, ctx)) return;
+    if (!job.pageToken && processedSoFar === 0 && attempt === 0) {
+      await resetSyncStatus(job.grantId, syncKindOf(job), "running", job.sinceEpoch, job.max);
+    } else {
+      await updateSyncStatus(job.grantId, syncKindOf(job), () => ({ state: "running" }));
+    }
 
-          // Accumulate thread-level notes for incremental thread summary
-          if (msg.thread_id) {
-            const arr = threadNotes.get(msg.thread_id) || [];
-            arr.push({ date_iso: dateIso, subject: msg.subject || "", from: fromEmail, to: toFirstEmails(msg.to, 3), excerpt: messageSummary.slice(0, 240) });
-            threadNotes.set(msg.thread_id, arr);
-          }
+    const { messages, nextCursor } = await listMessages({
+      grantId: job.grantId,
+      sinceEpoch: job.sinceEpoch,
+      pageToken: job.pageToken,
+      limit: 200,
+    });
+    ctx.log(`bf.page corr=${corr} messages=${messages.length} next=${nextCursor || "-"}`);
+
+    // Prepare vectors + storage + day notes; texts are embedded in batches once the page is walked
+    const pending: PendingVector[] = [];
+    const dayKeysSeen = new Set<string>();
+
+    const threadsTouched = new Set<string>();
+    // Everything sent to the model this page is redacted per the grant's policy; stored text keeps the originals
+    const redactor = await getRedactor(job.grantId);
+    const ai: AiScope = { grantId: job.grantId, redactor };
+
+    // Ledger lets re-runs over the same window skip messages whose content hasn't changed
+    const ledger = await loadMessageLedger(job.grantId);
+    const ledgerUpdates: Record<string, LedgerEntry> = {};
+    let skipped = 0;
+    let reprocessed = 0;
+    const staleIds: string[] = [];
+
+    let maxEpochPage = 0;
+    for (const msg of messages as NylasMessage[]) {
+      const epoch = msg.date || Math.floor(Date.now() / 1000);
+      if (Number.isFinite(epoch)) maxEpochPage = Math.max(maxEpochPage, epoch);
+      const dayKey = dayKeyFromEpoch(epoch);
+
+      const hash = messageContentHash(msg);
+      const prior = ledger[msg.id];
+      if (prior && prior.hash === hash) {
+        skipped += 1;
+        continue;
+      }
+      if (prior) {
+        reprocessed += 1;
+        // Date moved (rare, e.g. draft sent later): drop the note from the old day
+        if (prior.day_key && prior.day_key !== dayKey) {
+          await replaceDayNote(job.grantId, prior.thread_id, prior.day_key, msg.id, null);
+          dayKeysSeen.add(prior.day_key);
         }
-
       }
-
-      if (vectors.length) {
-        await upsertVectors(job.grantId, vectors);
-        ctx.log(`bf.upsert corr=${corr} count=${vectors.length}`);
-      } else {
-        ctx.log(`bf.skip corr=${corr} reason=empty_vectors`);
+      dayKeysSeen.add(dayKey);
+      ledgerUpdates[msg.id] = { hash, day_key: dayKey, thread_id: msg.thread_id, processedAt: new Date().toISOString() };
+      const dateIso = new Date(epoch * 1000).toISOString();
+      let attachmentAnalyses: string[] = [];
+
+      const body = normalizeEmailBody(msg.body || "");
+      const text = body.text;
+      // Summaries and chunks use only what this message added; quoted history belongs to earlier messages
+      const focusText = body.newText || body.text;
+      if (text) {
+        await saveCleanText(job.grantId, msg.id, text, body.newText);
       }
 
-      // Day/Week/Month summaries from notes of this page only (incremental)
-      const summaryVectors: { id: string; values: number[]; metadata: RecordMetadata }[] = [];
-
-      // Day summaries
-      for (const dayKey of dayKeysSeen) {
-        const notes = await loadDayNotes(job.grantId, dayKey);
-        if (!notes.length) continue;
-        const summary = await summarizeNotes(notes);
-        await saveSummary(job.grantId, "day", dayKey, summary);
-
-        const v = await embedText(summary);
-        summaryVectors.push({
-          id: `summary:day:${dayKey}`,
-          values: v,
-          metadata: { type: "thread_day", grant_id: job.grantId, bucket: dayKey, day_key: dayKey } as unknown as RecordMetadata,
-        });
-
-
+      // Attachments (bounded concurrency, size/type limits; skips are recorded on the vector)
+      const attResults = await processMessageAttachments(job.grantId, msg, attachmentLimits, redactor);
+      for (const r of attResults) {
+        if (r.error) {
+          ctx.warn?.(`bf.attach.fail corr=${corr} msg_id=${msg.id} att=${r.attId} reason=${r.skipReason} err=${r.error}`);
+        } else if (r.skipReason) {
+          ctx.log(`bf.attach.skip corr=${corr} msg_id=${msg.id} att=${r.attId} reason=${r.skipReason} type=${r.contentType || "-"} bytes=${r.size}`);
+        } else if (r.reused) {
+          ctx.log(`bf.attach.reuse corr=${corr} msg_id=${msg.id} att=${r.attId} hash=${r.contentHash}`);
+        }
+        if (r.skipReason === "download_failed") continue;
+
+        // Collect for inclusion in message-level summary
+        if (r.analysis) attachmentAnalyses.push(`Attachment "${r.filename}": ${r.analysis}`);
+        // Skipped files still get a vector describing them so they remain findable by name
+        const textForEmbedding = r.analysis
+          || `Attachment "${r.filename}" (${r.contentType || "unknown type"}, ${r.size} bytes) on message "${msg.subject || "(no subject)"}" was not analyzed: ${r.skipReason}`;
+        const meta: VectorMetadata = {
+          type: "attachment_file",
+          grant_id: job.grantId,
+          message_id: msg.id,
+          thread_id: msg.thread_id || "",
+          filename: r.filename,
+          content_type: r.contentType || "",
+          size_bytes: r.size,
+          analyzed: Boolean(r.analysis),
+          analyzer: r.analyzer || "",
+          content_hash: r.contentHash || "",
+          skip_reason: r.skipReason || "",
+          date_created: dateIso,
+          date: epoch,
+        } as unknown as VectorMetadata;
+        pending.push({ id: `file:${msg.id}:${r.attId}`, text: textForEmbedding, metadata: meta, messageId: msg.id });
       }
+      // Build message-level summary (map-reduce over body + attachment analyses), then embed
+      const fromEmail = (msg.from && msg.from[0]?.email) || "";
+      const fromDomain = (fromEmail.match(/@([^> ]+)/)?.[1] || "").toLowerCase();
+      const combinedForSummary = [
+        focusText || "",
+        attachmentAnalyses.length ? ("\n\n" + attachmentAnalyses.join("\n")) : "",
+      ].join("");
+
+      if (combinedForSummary.trim().length) {
+        const hint = `Message summary for subject: ${msg.subject || "(no subject)"}`;
+        const messageSummary = await summarizeLongTextMapReduce(ai, combinedForSummary, hint);
+
+        const id = `msg:${msg.id}`;
+        const metadata: VectorMetadata = {
+          type: "message",
+          grant_id: job.grantId,
+          thread_id: msg.thread_id || "",
+          subject: msg.subject || "",
+          from: fromEmail,
+          from_domain: fromDomain,
+          to: toFirstEmails(msg.to, 3),
+          date_created: dateIso,
+          date: epoch,
+          snippet: messageSummary.slice(0, 240),
+          has_attachments: Array.isArray(msg.attachments) && msg.attachments.length > 0,
+          unread: Boolean(msg.unread),
+          starred: Boolean(msg.starred),
+          folders: (msg.folders ?? []).map(String),
+        } as unknown as VectorMetadata;
+        pending.push({ id, text: messageSummary, metadata, messageId: msg.id });
+
+        // Body chunks keep exact phrases/numbers searchable even when the summary drops them
+        const chunks = focusText ? chunkText(focusText, BODY_CHUNK_CHARS, BODY_CHUNK_OVERLAP).slice(0, BODY_MAX_CHUNKS) : [];
+        for (const c of chunks) {
+          pending.push({
+            id: `chunk:${msg.id}:${c.index}`,
+            messageId: msg.id,
+            text: c.text,
+            metadata: {
+              type: "message_chunk",
+              grant_id: job.grantId,
+              message_id: msg.id,
+              thread_id: msg.thread_id || "",
+              subject: msg.subject || "",
+              from: fromEmail,
+              from_domain: fromDomain,
+              date_created: dateIso,
+              date: epoch,
+              chunk_index: c.index,
+              chunk_start: c.start,
+              chunk_end: c.end,
+              chunk_source: focusText === text ? "full" : "new", // offsets into <id>.txt or <id>.new.txt
+              snippet: c.text.slice(0, 240),
+              unread: Boolean(msg.unread),
+              starred: Boolean(msg.starred),
+              folders: (msg.folders ?? []).map(String),
+            } as unknown as VectorMetadata,
+          });
+        }
+        ledgerUpdates[msg.id].chunks = chunks.length;
+        // A shorter new version leaves higher-numbered chunks behind; remove them
+        for (let n = chunks.length; n < (prior?.chunks ?? 0); n++) staleIds.push(`chunk:${msg.id}:${n}`);
+
+        // Write the day note using the summary excerpt (replaces any earlier version of this message)
+        const note = {
+          messageId: msg.id,
+          date_iso: dateIso,
+          from: fromEmail,
+          to: toFirstEmails(msg.to, 5),
+          subject: msg.subject || "",
+          excerpt: messageSummary.slice(0, 240),
+        };
+        await replaceDayNote(job.grantId, msg.thread_id, dayKey, msg.id, note);
 
-      // Thread summaries (incremental from new/changed message-level summaries in this page)
-      for (const [threadId, notes] of threadNotes) {
-        if (!Array.isArray(notes) || !notes.length) continue;
-        const tSummary = await summarizeNotes(notes as any[], `Thread rollup for ${threadId}`);
-        await saveSummary(job.grantId, "thread", String(threadId), tSummary);
-        const tVec = await embedText(tSummary);
-        summaryVectors.push({
-          id: `summary:thread:${threadId}`,
-          values: tVec,
-          metadata: { type: "thread", grant_id: job.grantId, thread_id: String(threadId) } as unknown as RecordMetadata,
-        });
+        // Persist into the thread's note history so the rollup covers every page/delta run
+        if (msg.thread_id) {
+          await replaceThreadNote(job.grantId, msg.thread_id, msg.id, note);
+          threadsTouched.add(msg.thread_id);
+        }
+      } else if (prior) {
+        // Changed message no longer has summarizable content; don't leave its stale note behind
+        await replaceDayNote(job.grantId, msg.thread_id, dayKey, msg.id, null);
+        for (let n = 0; n < (prior.chunks ?? 0); n++) staleIds.push(`chunk:${msg.id}:${n}`);
+        if (msg.thread_id) {
+          await replaceThreadNote(job.grantId, msg.thread_id, msg.id, null);
+          threadsTouched.add(msg.thread_id);
+        }
       }
 
+    }
 
-      // Week summaries (from the days we touched)
-      const weekMap = new Map<string, string[]>(); // weekKey -> dayKeys[]
-      for (const dayKey of dayKeysSeen) {
-        const weekKey = weekKeyFromEpoch(Math.floor(new Date(dayKey + "T00:00:00Z").getTime() / 1000));
-        const arr = weekMap.get(weekKey) || [];
-        arr.push(dayKey);
-        weekMap.set(weekKey, arr);
+    const vectors = await embedPending(ai, pending, corr, ctx);
+    // Messages with any vector that didn't make it stay out of the ledger so a retry of this page redoes them
+    const failedMessages = new Set<string>();
+    let upserted = 0;
+    if (vectors.length) {
+      const owners = new Map(pending.map(p => [p.id, p.messageId]));
+      const report = await getVectorStore().upsert(job.grantId, vectors);
+      upserted += report.succeeded.length;
+      for (const f of report.failed) {
+        const owner = owners.get(f.id);
+        if (owner) failedMessages.add(owner);
       }
-      for (const [weekKey, dayKeys] of weekMap) {
-        const notesAll: any[] = [];
-        for (const dk of dayKeys) {
+      ctx.log(`bf.upsert corr=${corr} count=${vectors.length} ok=${report.succeeded.length} failed=${report.failed.length} batches=${report.batches} retries=${report.retries}`);
+      if (report.failed.length) ctx.warn?.(`bf.upsert.partial corr=${corr} failed_ids=${report.failed.slice(0, 10).map(f => f.id).join(",")} err=${report.failed[0].error}`);
+    } else {
+      ctx.log(`bf.skip corr=${corr} reason=empty_vectors`);
+    }
 
+    if (staleIds.length) {
+      await getVectorStore().delete(job.grantId, staleIds);
+      ctx.log(`bf.delete.stale corr=${corr} count=${staleIds.length}`);
+    }
 
-          const n = await loadDayNotes(job.grantId, dk);
-          notesAll.push(...n);
-        }
-        if (!notesAll.length) continue;
-        const summary = await summarizeNotes(notesAll, `Weekly rollup for ${weekKey}`);
-        await saveSummary(job.grantId, "week", weekKey, summary);
-        const v = await embedText(summary);
-        summaryVectors.push({
-          id: `summary:week:${weekKey}`,
-          values: v,
-          metadata: { type: "thread_week", grant_id: job.grantId, bucket: weekKey, week_key: weekKey } as unknown as RecordMetadata,
-        });
-      }
+    const pendingSummaries: PendingVector[] = [];
+
+    // Thread summaries over the full persisted thread history (not just this page's messages)
+    for (const threadId of threadsTouched) {
+      const notes = await loadThreadNotes(job.grantId, threadId);
+      if (!notes.length) continue;
+      const tSummary = await summarizeNotes(ai, notes, `Thread rollup for ${threadId} (${notes.length} messages)`);
+      await saveSummary(job.grantId, "thread", String(threadId), tSummary);
+      pendingSummaries.push({
+        id: `summary:thread:${threadId}`,
+        text: tSummary,
+        metadata: { type: "thread", grant_id: job.grantId, thread_id: String(threadId) } as unknown as VectorMetadata,
+      });
+    }
 
-      // Month summaries (from the days we touched)
-      const monthMap = new Map<string, string[]>(); // monthKey -> dayKeys[]
-      for (const dayKey of dayKeysSeen) {
-        const monthKey = monthKeyFromEpoch(Math.floor(new Date(dayKey + "T00:00:00Z").getTime() / 1000));
-        const arr = monthMap.get(monthKey) || [];
-        arr.push(dayKey);
-        monthMap.set(monthKey, arr);
-      }
-      for (const [monthKey, dayKeys] of monthMap) {
-        const notesAll: any[] = [];
-        for (const dk of dayKeys) {
-          const n = await loadDayNotes(job.grantId, dk);
-          notesAll.push(...n);
-        }
-        if (!notesAll.length) continue;
-        const summary = await summarizeNotes(notesAll, `Monthly rollup for ${monthKey}`);
-        await saveSummary(job.grantId, "month", monthKey, summary);
-        const v = await embedText(summary);
-        summaryVectors.push({
-          id: `summary:month:${monthKey}`,
-          values: v,
-          metadata: { type: "thread_month", grant_id: job.grantId, bucket: monthKey, month_key: monthKey } as unknown as RecordMetadata,
-        });
+    // Mark touched day/week/month buckets dirty; the rollup worker rebuilds each once bursts settle
+    if (dayKeysSeen.size) {
+      const days = Array.from(dayKeysSeen);
+      const weeks = Array.from(new Set(days.map(weekKeyFromDayKey)));
+      const months = Array.from(new Set(days.map(dk => dk.slice(0, 7))));
+      const scheduleFor = Date.now() + ROLLUP_DEBOUNCE_SECONDS * 1000;
+      if (await markRollupsDirty(job.grantId, { days, weeks, months }, scheduleFor)) {
+        await enqueueRollup({ grantId: job.grantId, requestedAt: Date.now() }, ROLLUP_DEBOUNCE_SECONDS);
+        ctx.log(`bf.rollup.scheduled corr=${corr} days=${days.length} weeks=${weeks.length} months=${months.length} delay_s=${ROLLUP_DEBOUNCE_SECONDS}`);
+      } else {
+        ctx.log(`bf.rollup.marked corr=${corr} days=${days.length} weeks=${weeks.length} months=${months.length}`);
       }
+    }
 
-      if (summaryVectors.length) {
-        await upsertVectors(job.grantId, summaryVectors);
-        ctx.log(`bf.upsert.summaries corr=${corr} count=${summaryVectors.length}`);
+    const summaryVectors = await embedPending(ai, pendingSummaries, corr, ctx);
+    if (redactor) ctx.log(`bf.redact corr=${corr} images=${redactor.policy.images} ${formatRedactionCounts(redactor)}`);
+    if (summaryVectors.length) {
+      const report = await getVectorStore().upsert(job.grantId, summaryVectors);
+      upserted += report.succeeded.length;
+      // A thread summary only gets rebuilt when one of its messages is processed again
+      const failedThreads = new Set(report.failed.map(f => f.id.replace(/^summary:thread:/, "")));
+      for (const [id, entry] of Object.entries(ledgerUpdates)) {
+        if (entry.thread_id && failedThreads.has(entry.thread_id)) failedMessages.add(id);
       }
+      ctx.log(`bf.upsert.summaries corr=${corr} count=${summaryVectors.length} ok=${report.succeeded.length} failed=${report.failed.length}`);
+    }
 
-      // Update checkpoint to the max message epoch seen on this page
-      if (maxEpochPage > 0) {
-        await setCheckpoint(job.grantId, maxEpochPage);
-        ctx.log(`bf.checkpoint corr=${corr} epoch=${maxEpochPage}`);
+    // Only record messages in the ledger once their vectors are safely upserted
+    for (const id of failedMessages) delete ledgerUpdates[id];
+    const ledgerCount = Object.keys(ledgerUpdates).length;
+    if (ledgerCount) {
+      await saveMessageLedger(job.grantId, { ...ledger, ...ledgerUpdates });
+    }
+    ctx.log(`bf.ledger corr=${corr} skipped=${skipped} reprocessed=${reprocessed} new=${ledgerCount - reprocessed} failed=${failedMessages.size}`);
+
+    // Partial upsert: rerun this page with backoff; the ledger limits the rerun to the failed messages
+    if (failedMessages.size) {
+      const idx = Math.min(attempt, BACKOFF_SECONDS.length - 1);
+      if (attempt >= BACKOFF_SECONDS.length) {
+        ctx.error?.(`bf.fail corr=${corr} reason=upsert_failed_exhausted messages=${failedMessages.size} attempts=${attempt}`);
+        await captureFailure(job, `upsert_failed messages=${failedMessages.size}`, corr, ctx);
+        return;
       }
+      await enqueueBackfill({ ...job, attempt: attempt + 1 }, BACKOFF_SECONDS[idx]);
+      ctx.log(`bf.retry corr=${corr} delay_s=${BACKOFF_SECONDS[idx]} reason=upsert_partial messages=${failedMessages.size}`);
+      await updateSyncStatus(job.grantId, syncKindOf(job), (prev) => ({
+        vectorsUpserted: prev.vectorsUpserted + upserted,
+        lastError: `retrying ${failedMessages.size} message(s) after partial upsert (attempt ${attempt + 1})`,
+      })).catch(() => {});
+      return;
+    }
 
-      const newProcessed = processedSoFar + messages.length;
-      if (nextCursor && newProcessed < job.max) {
-        const nextJob: BackfillJob = {
-          grantId: job.grantId,
-          sinceEpoch: job.sinceEpoch,
-          max: job.max,
-          pageToken: nextCursor,
-          processed: newProcessed,
-          attempt: 0,
-        };
+    // Update checkpoint to the max message epoch seen on this page
+    if (maxEpochPage > 0) {
+      await setCheckpoint(job.grantId, maxEpochPage);
+      ctx.log(`bf.checkpoint corr=${corr} epoch=${maxEpochPage}`);
+    }
+
+    const newProcessed = processedSoFar + messages.length;
+    if (nextCursor && newProcessed < job.max) {
+      const nextJob: BackfillJob = {
+        grantId: job.grantId,
+        sinceEpoch: job.sinceEpoch,
+        max: job.max,
+        pageToken: nextCursor,
+        processed: newProcessed,
+        attempt: 0,
+        enqueuedAt: job.enqueuedAt,
+        kind: job.kind,
+      };
+      await updateSyncStatus(job.grantId, syncKindOf(job), (prev) => ({
+        pagesDone: prev.pagesDone + 1,
+        processed: newProcessed,
+        vectorsUpserted: prev.vectorsUpserted + upserted,
+        lastCursor: nextCursor,
+        lastError: null,
+      }));
+      // Re-check control so a pause/cancel issued mid-page takes effect before chaining
+      if (!(await stopForControl(job, nextJob, corr, ctx))) {
         await enqueueBackfill(nextJob, SMOOTH_DELAY_SECONDS);
-        const tookMs = Date.now() - t0;
         ctx.log(`bf.enqueueNext corr=${job.grantId}:${nextCursor}:a0 processed=${newProcessed}/${job.max}`);
-        ctx.log(`ai.metric page_processed grant=${job.grantId} messages=${messages.length} vectors=${vectors.length + summaryVectors.length} took_ms=${tookMs} next=${nextCursor}`);
-      } else {
-        const tookMs = Date.now() - t0;
-        ctx.log(`bf.done corr=${corr} processed=${newProcessed}/${job.max} reason=${nextCursor ? "max_reached" : "no_more_pages"}`);
-        ctx.log(`ai.metric page_processed grant=${job.grantId} messages=${messages.length} vectors=${vectors.length + summaryVectors.length} took_ms=${tookMs} next=-`);
       }
-    } catch (err: any) {
-      if (err instanceof NylasApiError && (err.status === 429 || err.status === 504)) {
-        const idx = Math.min(attempt, BACKOFF_SECONDS.length - 1);
-        const delay = BACKOFF_SECONDS[idx];
-        if (attempt >= BACKOFF_SECONDS.length) {
-          ctx.error?.(`bf.fail corr=${corr} reason=rate_limited_exhausted attempts=${attempt}`);
-          return;
-        }
-        const retryJob: BackfillJob = { ...job, attempt: attempt + 1 };
-        await enqueueBackfill(retryJob, delay);
-        ctx.log(`bf.retry corr=${corr} delay_s=${delay} status=${err.status}`);
+      const tookMs = Date.now() - t0;
+      ctx.log(`ai.metric page_processed grant=${job.grantId} messages=${messages.length} vectors=${vectors.length + summaryVectors.length} took_ms=${tookMs} next=${nextCursor} ${formatAiCacheDelta(cacheBefore)}`);
+    } else {
+      const tookMs = Date.now() - t0;
+      ctx.log(`bf.done corr=${corr} processed=${newProcessed}/${job.max} reason=${nextCursor ? "max_reached" : "no_more_pages"}`);
+      await recordGrantSync(job.grantId).catch(() => {});
+      await updateSyncStatus(job.grantId, syncKindOf(job), (prev) => ({
+        state: "done",
+        finishedAt: new Date().toISOString(),
+        pagesDone: prev.pagesDone + 1,
+        processed: newProcessed,
+        vectorsUpserted: prev.vectorsUpserted + upserted,
+        lastCursor: nextCursor || null,
+        lastError: null,
+      }));
+      ctx.log(`ai.metric page_processed grant=${job.grantId} messages=${messages.length} vectors=${vectors.length + summaryVectors.length} took_ms=${tookMs} next=- ${formatAiCacheDelta(cacheBefore)}`);
+    }
+  } catch (err: any) {
+    if (err instanceof NylasApiError && (err.status === 429 || err.status === 504)) {
+      const idx = Math.min(attempt, BACKOFF_SECONDS.length - 1);
+      const delay = BACKOFF_SECONDS[idx];
+      if (attempt >= BACKOFF_SECONDS.length) {
+        ctx.error?.(`bf.fail corr=${corr} reason=rate_limited_exhausted attempts=${attempt}`);
+        await captureFailure(job, `rate_limited_exhausted status=${err.status}`, corr, ctx);
         return;
       }
-      ctx.error?.(`bf.error corr=${corr} msg=${(err && err.message) || err}`);
-      // Swallow error to avoid poison-loop; next page (if any) won't be scheduled here.
+      const retryJob: BackfillJob = { ...job, attempt: attempt + 1 };
+      await enqueueBackfill(retryJob, delay);
+      ctx.log(`bf.retry corr=${corr} delay_s=${delay} status=${err.status}`);
+      await updateSyncStatus(job.grantId, syncKindOf(job), () => ({ lastError: `retrying after status ${err.status} (attempt ${attempt + 1})` })).catch(() => {});
+      return;
     }
-  },
-});
+    ctx.error?.(`bf.error corr=${corr} msg=${(err && err.message) || err}`);
+    // Swallow error to avoid poison-loop; next page (if any) won't be scheduled here.
+    // The job is captured so an operator can replay it from the same page token.
+    await captureFailure(job, String((err && err.message) || err), corr, ctx);
+  }
+}
+
+// With JOB_QUEUE=local the jobs live on disk and local/runner.ts calls the handler instead
+if (getJobQueue().kind === "servicebus") {
+  app.serviceBusQueue("backfillWorker", {
+    connection: "SERVICEBUS_CONNECTION",
+    queueName: BACKFILL_QUEUE,
+    isSessionsEnabled: true,
+    handler: handleBackfillMessage,
+  });
+}
 
@@ -1,6 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { enqueueBackfill, BackfillJob } from "../shared/bus";
-import { getCheckpoint } from "../shared/storage";
+import { getCheckpoint, resetSyncStatus } from "../shared/storage";
 
 function monthsAgoToEpochSeconds(months: number): number {
   const d = new Date();
@@ -27,13 +27,14 @@ app.http("deltaStart", {
       const cp = await getCheckpoint(grantId);
       const sinceEpoch = cp > 0 ? cp : monthsAgoToEpochSeconds(months);
 
-      const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0 };
+      const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0, kind: "delta" };
       await enqueueBackfill(job);
+      await resetSyncStatus(grantId, "delta", "queued", sinceEpoch, max);
 
       ctx.log(`Enqueued delta for grantId=${grantId} since=${sinceEpoch} max=${max} (cp=${cp})`);
       return {
         status: 202,
-        jsonBody: { ok: true, grantId, sinceEpoch, max, message: "Delta sync enqueued" },
+        jsonBody: { ok: true, grantId, sinceEpoch, max, message: "Delta sync enqueued", statusUrl: `/api/sync/status/${encodeURIComponent(grantId)}` },
       };
     } catch (err: any) {
       ctx.error?.("deltaStart error", err);
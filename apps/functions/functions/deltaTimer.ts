@@ -1,6 +1,7 @@
 import { app, InvocationContext, Timer } from "@azure/functions";
 import { enqueueBackfill } from "../shared/bus";
-import { getCheckpoint, listKnownGrants } from "../shared/storage";
+import { getCheckpoint, getGrantLifecycle, listKnownGrants } from "../shared/storage";
+import { listGrants } from "../shared/grantRegistry";
 
 function monthsAgoToEpochSeconds(months: number): number {
   const d = new Date();
@@ -14,14 +15,20 @@ app.timer("deltaTimer", {
     const envGrant = (process.env.NYLAS_GRANT_ID || "").trim();
     let grants: string[] = [];
     try {
-      const known = await listKnownGrants();
-      grants = known.length ? known : (envGrant ? [envGrant] : []);
+      // Registered grants plus every grant with stored state, so registering one mailbox never stops the others;
+      // only grants disabled in the registry are left out
+      const registered = await listGrants();
+      const disabled = new Set(registered.filter(r => !r.enabled).map(r => r.grantId));
+      const all = new Set([...registered.map(r => r.grantId), ...(await listKnownGrants())]);
+      grants = Array.from(all).filter(g => !disabled.has(g));
+      if (disabled.size) ctx.log(`deltaTimer: skipping ${disabled.size} disabled grant(s)`);
+      if (!grants.length && envGrant && !disabled.has(envGrant)) grants = [envGrant];
     } catch {
       grants = envGrant ? [envGrant] : [];
     }
 
     if (!grants.length) {
-      ctx.warn?.("deltaTimer: no grants discovered; set NYLAS_GRANT_ID or create .data/grants/<grantId>");
+      ctx.warn?.("deltaTimer: no grants to schedule; register one via POST /api/grants or set NYLAS_GRANT_ID");
       return;
     }
 
@@ -30,9 +37,14 @@ app.timer("deltaTimer", {
 
     for (const grantId of grants) {
       try {
+        const lifecycle = await getGrantLifecycle(grantId);
+        if (lifecycle) {
+          ctx.log(`deltaTimer: skipped grantId=${grantId} state=${lifecycle.state}`);
+          continue;
+        }
         const cp = await getCheckpoint(grantId);
         const sinceEpoch = cp > 0 ? cp : monthsAgoToEpochSeconds(defaultMonths);
-        await enqueueBackfill({ grantId, sinceEpoch, max: defaultMax, processed: 0, attempt: 0 });
+        await enqueueBackfill({ grantId, sinceEpoch, max: defaultMax, processed: 0, attempt: 0, kind: "delta" });
         ctx.log(`deltaTimer: enqueued delta grantId=${grantId} since=${sinceEpoch} (cp=${cp}) max=${defaultMax}`);
       } catch (e: any) {
         ctx.error?.(`deltaTimer: failed to enqueue grantId=${grantId}: ${e?.message || e}`);
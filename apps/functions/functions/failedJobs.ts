@@ -0,0 +1,58 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { enqueueBackfill, BackfillJob } from "../shared/bus";
+import { listFailedJobs, removeFailedJob } from "../shared/storage";
+
+// GET /api/sync/failed/{grantId}
+app.http("failedJobsList", {
+  methods: ["GET"],
+  authLevel: "function",
+  route: "sync/failed/{grantId}",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const grantId = (req.params.grantId || "").trim();
+      if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+      const failed = await listFailedJobs(grantId);
+      return { status: 200, jsonBody: { ok: true, grantId, count: failed.length, failed } };
+    } catch (err: any) {
+      ctx.error?.("failedJobsList error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
+
+// POST /api/sync/failed/{grantId}/replay
+// Body: { id? } — replays one failed job by id, or all of them when id is omitted
+app.http("failedJobsReplay", {
+  methods: ["POST"],
+  authLevel: "function",
+  route: "sync/failed/{grantId}/replay",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const grantId = (req.params.grantId || "").trim();
+      if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+      const raw = await req.text();
+      let body: Partial<{ id: string }> = {};
+      try { body = raw ? JSON.parse(raw) : {}; } catch { return { status: 400, jsonBody: { ok: false, error: "Invalid JSON body" } }; }
+      const id = (body?.id || "").trim();
+
+      const failed = await listFailedJobs(grantId);
+      const targets = id ? failed.filter(f => f.id === id) : failed;
+      if (id && !targets.length) return { status: 404, jsonBody: { ok: false, error: `No failed job ${id}` } };
+
+      const replayed: string[] = [];
+      for (const rec of targets) {
+        // Fresh attempt count so the worker's backoff budget starts over; restamped so an earlier cancel doesn't drop it
+        const job: BackfillJob = { ...rec.job, attempt: 0, enqueuedAt: undefined };
+        await enqueueBackfill(job);
+        await removeFailedJob(grantId, rec.id);
+        replayed.push(rec.id);
+        ctx.log(`failedJobsReplay: enqueued grantId=${grantId} id=${rec.id} page=${job.pageToken || "start"} processed=${job.processed ?? 0}`);
+      }
+
+      return { status: 202, jsonBody: { ok: true, grantId, replayed } };
+    } catch (err: any) {
+      ctx.error?.("failedJobsReplay error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
@@ -0,0 +1,31 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { purgeGrant } from "../shared/grantLifecycle";
+import { isValidGrantId } from "../shared/storage";
+
+// POST /api/grants/{grantId}/purge
+// Body: { confirm: "<grantId>", reason? } — irreversibly deletes all data held for the grant and returns the deletion report
+app.http("grantPurge", {
+  methods: ["POST"],
+  authLevel: "function",
+  route: "grants/{grantId}/purge",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const grantId = (req.params.grantId || "").trim();
+      if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+      if (!isValidGrantId(grantId)) return { status: 400, jsonBody: { ok: false, error: "Invalid grantId" } };
+      const raw = await req.text();
+      let body: Partial<{ confirm: string; reason: string }> = {};
+      try { body = raw ? JSON.parse(raw) : {}; } catch { return { status: 400, jsonBody: { ok: false, error: "Invalid JSON body" } }; }
+      if ((body?.confirm || "").trim() !== grantId) {
+        return { status: 400, jsonBody: { ok: false, error: "Set confirm to the grantId to purge its data" } };
+      }
+
+      const report = await purgeGrant(grantId, (body?.reason || "").trim() || "purge_request");
+      ctx.log(`grantPurge: grantId=${grantId} reason=${report.reason} vectors=${report.vectors.deleted} objects=${report.storage.objects} api_key_removed=${report.apiKeyRemoved}`);
+      return { status: 200, jsonBody: { ok: true, report } };
+    } catch (err: any) {
+      ctx.error?.("grantPurge error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
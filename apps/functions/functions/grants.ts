@@ -0,0 +1,99 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { getGrant, listGrants, registerGrant, setGrantEnabled, isValidKeyRef, type GrantRegistration } from "../shared/grantRegistry";
+import { parseRedactionPolicy, type RedactionPolicy } from "../shared/redaction";
+import { isValidGrantId } from "../shared/storage";
+
+// Admin API for the grant registry; these use the host's admin (master) key
+
+// GET /api/grants?enabled=true
+app.http("grantsList", {
+  methods: ["GET"],
+  authLevel: "admin",
+  route: "grants",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const grants = await listGrants({ enabledOnly: req.query.get("enabled") === "true" });
+      return { status: 200, jsonBody: { ok: true, count: grants.length, grants } };
+    } catch (err: any) {
+      ctx.error?.("grantsList error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
+
+// POST /api/grants
+// Body: { grantId, owner?, email?, provider?, keyRef?, apiKey?, enabled?, redaction? } — creates or updates; apiKey is stored, never returned.
+// redaction: { types?: ("card"|"ssn"|"phone"|"otp")[], images?: "send"|"skip" } overrides the env policy; null removes the override
+app.http("grantsRegister", {
+  methods: ["POST"],
+  authLevel: "admin",
+  route: "grants",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const raw = await req.text();
+      let body: Partial<GrantRegistration> = {};
+      try { body = raw ? JSON.parse(raw) : {}; } catch { return { status: 400, jsonBody: { ok: false, error: "Invalid JSON body" } }; }
+      const grantId = (body?.grantId || "").toString().trim();
+      if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+      if (!isValidGrantId(grantId)) return { status: 400, jsonBody: { ok: false, error: "Invalid grantId" } };
+      if (body.keyRef && !isValidKeyRef(body.keyRef)) {
+        return { status: 400, jsonBody: { ok: false, error: "keyRef must be env:<APP_SETTING> or secret:<name>" } };
+      }
+      if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+        return { status: 400, jsonBody: { ok: false, error: "enabled must be a boolean" } };
+      }
+      let redaction: Partial<RedactionPolicy> | null | undefined = body.redaction;
+      if (redaction !== undefined && redaction !== null) {
+        try { redaction = parseRedactionPolicy(redaction); } catch (e: any) { return { status: 400, jsonBody: { ok: false, error: e.message } }; }
+      }
+
+      const existing = Boolean(await getGrant(grantId));
+      const grant = await registerGrant({
+        grantId,
+        owner: body.owner,
+        email: body.email,
+        provider: body.provider,
+        keyRef: body.keyRef,
+        apiKey: body.apiKey,
+        enabled: body.enabled,
+        redaction,
+      });
+      ctx.log(`grantsRegister: ${existing ? "updated" : "created"} grantId=${grantId} enabled=${grant.enabled} keyRef=${grant.keyRef || "default"}`);
+      return { status: existing ? 200 : 201, jsonBody: { ok: true, grant } };
+    } catch (err: any) {
+      ctx.error?.("grantsRegister error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
+
+function registerToggle(action: "enable" | "disable") {
+  // POST /api/grants/{grantId}/{enable|disable}
+  // Body (disable): { reason? }
+  app.http(`grants${action[0].toUpperCase()}${action.slice(1)}`, {
+    methods: ["POST"],
+    authLevel: "admin",
+    route: `grants/{grantId}/${action}`,
+    handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+      try {
+        const grantId = (req.params.grantId || "").trim();
+        if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+        if (!isValidGrantId(grantId)) return { status: 400, jsonBody: { ok: false, error: "Invalid grantId" } };
+        const raw = await req.text();
+        let body: Partial<{ reason: string }> = {};
+        try { body = raw ? JSON.parse(raw) : {}; } catch { return { status: 400, jsonBody: { ok: false, error: "Invalid JSON body" } }; }
+
+        const grant = await setGrantEnabled(grantId, action === "enable", (body?.reason || "").trim() || undefined);
+        if (!grant) return { status: 404, jsonBody: { ok: false, error: `Grant ${grantId} is not registered` } };
+        ctx.log(`grants${action}: grantId=${grantId} enabled=${grant.enabled}`);
+        return { status: 200, jsonBody: { ok: true, grant } };
+      } catch (err: any) {
+        ctx.error?.(`grants ${action} error`, err);
+        return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+      }
+    },
+  });
+}
+
+registerToggle("enable");
+registerToggle("disable");
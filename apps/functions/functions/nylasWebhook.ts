@@ -1,6 +1,12 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import crypto from "node:crypto";
 import { enqueueBackfill } from "../shared/bus";
+import { applyMessageUpdate, deleteMessage } from "../shared/messageEvents";
+import { markGrantDeleted, markGrantExpired, reactivateGrant } from "../shared/grantLifecycle";
+import { getGrant, registerGrant } from "../shared/grantRegistry";
+import { isValidGrantId, markDeltaPending } from "../shared/storage";
+
+const WEBHOOK_DEBOUNCE_SECONDS = Number(process.env.WEBHOOK_DEBOUNCE_SECONDS || 30);
 
 function ok(body: any): HttpResponseInit { return { status: 200, jsonBody: body }; }
 function accepted(body: any): HttpResponseInit { return { status: 202, jsonBody: body }; }
@@ -29,6 +35,9 @@ app.http("nylasWebhook", {
       const raw = await req.text();
       if (!raw) return bad("Missing body");
 
+      // Grant lifecycle events and message updates/deletions change or remove what is stored, so they are only
+      // honoured when signed; an unsigned message.created at most triggers a delta fetch from Nylas
+      let verified = false;
       if (secret) {
         try {
           const digestHex = crypto.createHmac("sha256", secret).update(raw, "utf8").digest("hex");
@@ -42,6 +51,7 @@ app.http("nylasWebhook", {
           ctx.warn?.(`nylasWebhook: signature check error ${e?.message || e}`);
           return { status: 401, jsonBody: { ok: false, error: "signature check error" } };
         }
+        verified = true;
       } else {
         ctx.warn?.("nylasWebhook: NYLAS_WEBHOOK_SECRET not set; skipping signature verification");
       }
@@ -52,26 +62,73 @@ app.http("nylasWebhook", {
 
       const events: any[] = Array.isArray(body) ? body : (Array.isArray(body?.notifications) ? body.notifications : [body]);
       let enqueued = 0;
+      let coalesced = 0;
+      let updated = 0;
+      let deleted = 0;
+      let grantEvents = 0;
+      let refused = 0;
+      let ignored = 0;
       const windowSeconds = Number(process.env.WEBHOOK_DELTA_WINDOW_S || 3600);
 
       for (const evt of events) {
-        const type: string = (evt?.type || evt?.trigger_type || "").toString();
-        if (!type) continue;
-        if (!type.startsWith("message.")) continue; // only handle message.* for now
-
+        // message.updated.truncated etc. carry the same object minus the body
+        const type: string = (evt?.type || evt?.trigger_type || "").toString().replace(/\.truncated$/, "");
         const data = evt?.data || evt;
-        const grantId: string = (data?.grant_id || data?.grantId || "").toString();
-        if (!grantId) continue;
-
-        const sinceEpoch: number = Number(data?.date || data?.received_at || Math.floor(Date.now() / 1000) - windowSeconds);
-        const max = Number(process.env.WEBHOOK_DELTA_MAX || 1000);
+        const obj = data?.object || data;
+        const grantId: string = (obj?.grant_id || data?.grant_id || data?.grantId || "").toString();
+        const messageId: string = (obj?.id || "").toString();
+        if (!grantId || !isValidGrantId(grantId)) {
+          ignored += 1;
+          continue;
+        }
 
-        await enqueueBackfill({ grantId, sinceEpoch, max, processed: 0, attempt: 0 });
-        enqueued += 1;
+        if (type === "message.created") {
+          // Only new mail needs the fetch/summarize/embed pipeline; a burst shares one delta job per grant
+          const sinceEpoch: number = Number(obj?.date || data?.received_at || Math.floor(Date.now() / 1000) - windowSeconds);
+          const max = Number(process.env.WEBHOOK_DELTA_MAX || 1000);
+          const scheduleFor = Date.now() + WEBHOOK_DEBOUNCE_SECONDS * 1000;
+          if (await markDeltaPending(grantId, sinceEpoch, messageId || undefined, scheduleFor)) {
+            await enqueueBackfill({ grantId, sinceEpoch, max, processed: 0, attempt: 0, kind: "delta", coalesced: true }, WEBHOOK_DEBOUNCE_SECONDS);
+            enqueued += 1;
+          } else {
+            coalesced += 1;
+          }
+        } else if (!verified && (type.startsWith("grant.") || type === "message.updated" || type === "message.deleted")) {
+          ctx.warn?.(`nylasWebhook: ${type} grant=${grantId} refused reason=unsigned`);
+          refused += 1;
+        } else if (type === "message.updated" && messageId) {
+          const res = await applyMessageUpdate(grantId, messageId, { unread: obj.unread, starred: obj.starred, folders: obj.folders });
+          ctx.log(`nylasWebhook: message.updated grant=${grantId} msg_id=${messageId} indexed=${res.indexed} patched=${res.patched}`);
+          updated += 1;
+        } else if (type === "message.deleted" && messageId) {
+          const res = await deleteMessage(grantId, messageId);
+          ctx.log(`nylasWebhook: message.deleted grant=${grantId} msg_id=${messageId} indexed=${res.indexed} vectors=${res.vectors} attachments=${res.attachmentFiles} blobs_deleted=${res.blobsDeleted} thread_summary=${res.threadSummary ?? "-"} rollup=${res.rollupScheduled}`);
+          deleted += 1;
+        } else if (type === "grant.expired") {
+          await markGrantExpired(grantId, type);
+          ctx.log(`nylasWebhook: grant.expired grant=${grantId} sync=stopped`);
+          grantEvents += 1;
+        } else if (type === "grant.deleted") {
+          // The mailbox was disconnected: stop syncing it. Erasing its data is left to POST /api/grants/{grantId}/purge
+          await markGrantDeleted(grantId, type);
+          ctx.log(`nylasWebhook: grant.deleted grant=${grantId} sync=stopped purge=pending`);
+          grantEvents += 1;
+        } else if (type === "grant.created" || type === "grant.updated") {
+          // New mailboxes connected through the Nylas app join the registry (enabled, default API key)
+          if (type === "grant.created" && !(await getGrant(grantId))) {
+            await registerGrant({ grantId, email: obj?.email || undefined, provider: obj?.provider || undefined });
+            ctx.log(`nylasWebhook: grant.created grant=${grantId} registered provider=${obj?.provider || "-"}`);
+          }
+          const cleared = await reactivateGrant(grantId);
+          if (cleared) ctx.log(`nylasWebhook: ${type} grant=${grantId} sync=resumed expired_at=${cleared.at}`);
+          grantEvents += 1;
+        } else {
+          ignored += 1;
+        }
       }
 
-      ctx.log(`nylasWebhook: processed events=${events.length} enqueued=${enqueued}`);
-      return accepted({ ok: true, received: events.length, enqueued });
+      ctx.log(`nylasWebhook: processed events=${events.length} enqueued=${enqueued} coalesced=${coalesced} updated=${updated} deleted=${deleted} grants=${grantEvents} refused=${refused} ignored=${ignored}`);
+      return accepted({ ok: true, received: events.length, enqueued, coalesced, updated, deleted, grants: grantEvents, refused, ignored });
     } catch (err: any) {
       ctx.error?.("nylasWebhook error", err);
       return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
@@ -0,0 +1,164 @@
+import { app, InvocationContext } from "@azure/functions";
+import { RollupJob, ROLLUP_QUEUE, enqueueRollup, getJobQueue } from "../shared/bus";
+import { embedTexts, summarizeNotes, aiCacheSnapshot, formatAiCacheDelta } from "../shared/openai";
+import { getVectorStore, type VectorMetadata } from "../shared/vectorStore";
+import { loadDayNotes, saveSummary, deleteSummary, loadRollupState, saveRollupState, claimDirtyRollups, hasDirtyRollups, markRollupsDirty, type DayNote, type RollupKeys } from "../shared/storage";
+import { dayKeysForWeek, dayKeysForMonth } from "../shared/shard";
+import { getRedactor } from "../shared/redaction";
+
+// Wait for this much quiet (no new marks) before rebuilding, but never longer than the max wait
+const ROLLUP_DEBOUNCE_SECONDS = Number(process.env.ROLLUP_DEBOUNCE_SECONDS || 60);
+const ROLLUP_MAX_WAIT_SECONDS = Number(process.env.ROLLUP_MAX_WAIT_SECONDS || 600);
+const RETRY_SECONDS = [30, 60, 120, 300] as const;
+
+function parseJob(raw: unknown): RollupJob {
+  if (typeof raw === "string") return JSON.parse(raw) as RollupJob;
+  return raw as RollupJob;
+}
+
+async function loadNotesForDays(grantId: string, dayKeys: string[]): Promise<DayNote[]> {
+  const notesAll: DayNote[] = [];
+  for (const dk of dayKeys) {
+    const n = await loadDayNotes(grantId, dk);
+    notesAll.push(...n);
+  }
+  return notesAll;
+}
+
+export async function handleRollupMessage(message: unknown, ctx: InvocationContext): Promise<void> {
+  const job = parseJob(message);
+  const grantId = job.grantId;
+  const attempt = job.attempt ?? 0;
+  const t0 = Date.now();
+  const cacheBefore = aiCacheSnapshot();
+  let keys: RollupKeys | null = null;
+
+  try {
+    const state = await loadRollupState(grantId);
+    if (!hasDirtyRollups(state)) {
+      ctx.log(`rollup.skip grant=${grantId} reason=nothing_dirty`);
+      return;
+    }
+
+    // Still bursting: push the rebuild out until marks stop (bounded by max wait)
+    const quietMs = t0 - (state.lastMarkedAt ?? 0);
+    const waitedMs = t0 - (state.firstMarkedAt ?? t0);
+    if (quietMs < ROLLUP_DEBOUNCE_SECONDS * 1000 && waitedMs < ROLLUP_MAX_WAIT_SECONDS * 1000) {
+      const delay = Math.max(1, Math.ceil(ROLLUP_DEBOUNCE_SECONDS - quietMs / 1000));
+      await saveRollupState(grantId, { ...state, scheduledFor: t0 + delay * 1000 });
+      await enqueueRollup({ grantId, requestedAt: t0, attempt }, delay);
+      ctx.log(`rollup.defer grant=${grantId} delay_s=${delay} quiet_ms=${quietMs} waited_ms=${waitedMs}`);
+      return;
+    }
+
+    keys = await claimDirtyRollups(grantId);
+    ctx.log(`rollup.start grant=${grantId} days=${keys.days.length} weeks=${keys.weeks.length} months=${keys.months.length}`);
+
+    const ai = { grantId, redactor: await getRedactor(grantId) };
+    // Summaries are embedded together in one batched call after all buckets are rebuilt
+    const pending: { id: string; text: string; metadata: VectorMetadata }[] = [];
+    // Buckets left without notes (their messages were deleted) lose their summary instead
+    const emptied: string[] = [];
+
+    // Day summaries
+    for (const dayKey of keys.days) {
+      const notes = await loadDayNotes(grantId, dayKey);
+      if (!notes.length) {
+        await deleteSummary(grantId, "day", dayKey);
+        emptied.push(`summary:day:${dayKey}`);
+        continue;
+      }
+      const summary = await summarizeNotes(ai, notes);
+      await saveSummary(grantId, "day", dayKey, summary);
+      pending.push({
+        id: `summary:day:${dayKey}`,
+        text: summary,
+        metadata: { type: "thread_day", grant_id: grantId, bucket: dayKey, day_key: dayKey } as unknown as VectorMetadata,
+      });
+    }
+
+    // Week summaries (from every day in the week, not just the dirty ones)
+    for (const weekKey of keys.weeks) {
+      const notesAll = await loadNotesForDays(grantId, dayKeysForWeek(weekKey));
+      if (!notesAll.length) {
+        await deleteSummary(grantId, "week", weekKey);
+        emptied.push(`summary:week:${weekKey}`);
+        continue;
+      }
+      const summary = await summarizeNotes(ai, notesAll, `Weekly rollup for ${weekKey}`);
+      await saveSummary(grantId, "week", weekKey, summary);
+      pending.push({
+        id: `summary:week:${weekKey}`,
+        text: summary,
+        metadata: { type: "thread_week", grant_id: grantId, bucket: weekKey, week_key: weekKey } as unknown as VectorMetadata,
+      });
+    }
+
+    // Month summaries (from every day in the month)
+    for (const monthKey of keys.months) {
+      const notesAll = await loadNotesForDays(grantId, dayKeysForMonth(monthKey));
+      if (!notesAll.length) {
+        await deleteSummary(grantId, "month", monthKey);
+        emptied.push(`summary:month:${monthKey}`);
+        continue;
+      }
+      const summary = await summarizeNotes(ai, notesAll, `Monthly rollup for ${monthKey}`);
+      await saveSummary(grantId, "month", monthKey, summary);
+      pending.push({
+        id: `summary:month:${monthKey}`,
+        text: summary,
+        metadata: { type: "thread_month", grant_id: grantId, bucket: monthKey, month_key: monthKey } as unknown as VectorMetadata,
+      });
+    }
+
+    const values = await embedTexts(ai, pending.map(p => p.text));
+    const summaryVectors = pending.map((p, i) => ({ id: p.id, values: values[i], metadata: p.metadata }));
+    if (summaryVectors.length) {
+      const report = await getVectorStore().upsert(grantId, summaryVectors);
+      ctx.log(`rollup.upsert grant=${grantId} count=${summaryVectors.length} ok=${report.succeeded.length} failed=${report.failed.length} retries=${report.retries}`);
+      // Rebuilding is cheap with the model cache; take the retry path so the claimed keys are re-marked
+      if (report.failed.length) throw new Error(`upsert failed for ${report.failed.length} summaries: ${report.failed[0].error}`);
+    }
+
+    if (emptied.length) {
+      await getVectorStore().delete(grantId, emptied);
+      ctx.log(`rollup.delete grant=${grantId} count=${emptied.length}`);
+    }
+
+    // Pages that landed while we were rebuilding may have found no job pending; pick them up
+    const rescheduleAt = Date.now() + ROLLUP_DEBOUNCE_SECONDS * 1000;
+    if (await markRollupsDirty(grantId, { days: [], weeks: [], months: [] }, rescheduleAt)) {
+      await enqueueRollup({ grantId, requestedAt: Date.now() }, ROLLUP_DEBOUNCE_SECONDS);
+      ctx.log(`rollup.requeue grant=${grantId} delay_s=${ROLLUP_DEBOUNCE_SECONDS}`);
+    }
+
+    const tookMs = Date.now() - t0;
+    ctx.log(`ai.metric rollup_processed grant=${grantId} vectors=${summaryVectors.length} took_ms=${tookMs} ${formatAiCacheDelta(cacheBefore)}`);
+  } catch (err: any) {
+    ctx.error?.(`rollup.error grant=${grantId} attempt=${attempt} msg=${(err && err.message) || err}`);
+    // Put claimed keys back so nothing is lost; retry with backoff, then leave them for the next page's mark
+    if (keys) {
+      const delay = RETRY_SECONDS[Math.min(attempt, RETRY_SECONDS.length - 1)];
+      const giveUp = attempt >= RETRY_SECONDS.length;
+      // A far-past schedule lets the next page worker reclaim immediately once we give up
+      const scheduleFor = giveUp ? 0 : Date.now() + delay * 1000;
+      const claim = await markRollupsDirty(grantId, keys, scheduleFor).catch(() => false);
+      if (claim && !giveUp) {
+        await enqueueRollup({ grantId, requestedAt: Date.now(), attempt: attempt + 1 }, delay);
+        ctx.log(`rollup.retry grant=${grantId} delay_s=${delay}`);
+      } else if (giveUp) {
+        ctx.error?.(`rollup.fail grant=${grantId} reason=retries_exhausted attempts=${attempt}`);
+      }
+    }
+  }
+}
+
+// With JOB_QUEUE=local the jobs live on disk and local/runner.ts calls the handler instead
+if (getJobQueue().kind === "servicebus") {
+  app.serviceBusQueue("rollupWorker", {
+    connection: "SERVICEBUS_CONNECTION",
+    queueName: ROLLUP_QUEUE,
+    isSessionsEnabled: true,
+    handler: handleRollupMessage,
+  });
+}
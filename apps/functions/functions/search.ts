@@ -1,6 +1,8 @@
 import { app, HttpRequest, HttpResponseInit } from "@azure/functions";
-import { Pinecone } from "@pinecone-database/pinecone";
 import { embedText } from "../shared/openai";
+import { getRedactor } from "../shared/redaction";
+import { collapseChunkMatches, getVectorStore } from "../shared/vectorStore";
+import { countAttachmentMessages } from "../shared/storage";
 
 // POST /api/search
 // Body: { grantId, query, topK=10, types?, threadId?, dateFrom?, dateTo?, bucket? }
@@ -23,12 +25,10 @@ app.http("search", {
       } = body || {};
 
       if (!grantId || !query) return { status: 400, body: "grantId and query required" };
-      if (!process.env.PINECONE_API_KEY) return { status: 500, body: "Missing PINECONE_API_KEY" };
-      if (!process.env.PINECONE_INDEX_NAME) return { status: 500, body: "Missing PINECONE_INDEX_NAME" };
 
-      const pc = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
-      const index = pc.index(process.env.PINECONE_INDEX_NAME!);
-      const vec = await embedText(String(query));
+      const store = getVectorStore();
+      // Same placeholders as the indexed text, so a card or phone number in the query still matches
+      const vec = await embedText({ grantId: String(grantId), redactor: await getRedactor(String(grantId)) }, String(query));
 
       const filter: Record<string, any> = {};
       const normalizeTypes = (arr?: string[]) => {
@@ -37,7 +37,7 @@ app.http("search", {
         for (const t of arr) {
           switch (t) {
             case "message":
-              out.add("message"); out.add("email"); break; // legacy compatibility
+              out.add("message"); out.add("email"); out.add("message_chunk"); break; // legacy compatibility + body chunks
             case "thread_day":
               out.add("thread_day"); out.add("summary_day"); break;
             case "thread_week":
@@ -60,16 +60,24 @@ app.http("search", {
         if (dateTo) filter.date_created["$lte"] = dateTo;
       }
 
-      const ns = index.namespace(String(grantId));
-      const resp = await ns.query({
+      const k = Math.min(Number(topK) || 10, 100);
+      // Over-fetch so several chunks of one message don't crowd out other results after collapsing
+      const hits = await store.query(String(grantId), {
         vector: vec,
-        topK: Math.min(Number(topK) || 10, 100),
+        topK: Math.min(k * 3, 100),
         includeMetadata: true,
         filter: Object.keys(filter).length ? filter : undefined,
       });
 
-      // Return Pinecone matches directly for richer judging; consumer can map as needed
-      return { status: 200, jsonBody: { matches: resp.matches ?? [] } };
+      // Return vector matches (chunk hits folded into their message) for richer judging; consumer can map as needed
+      const collapsed = collapseChunkMatches(hits).slice(0, k);
+      // Attachments are stored once per content hash; report how many messages carry the same file
+      const matches = await Promise.all(collapsed.map(async m => {
+        const md = (m.metadata as any) || {};
+        if (md.type !== "attachment_file" || !md.content_hash) return m;
+        return { ...m, appears_in_messages: await countAttachmentMessages(String(grantId), String(md.content_hash)) };
+      }));
+      return { status: 200, jsonBody: { matches } };
     } catch (e: any) {
       return { status: 500, body: String(e?.message || e) };
     }
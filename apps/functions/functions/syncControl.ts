@@ -0,0 +1,81 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { enqueueBackfill } from "../shared/bus";
+import { getSyncControl, setSyncControl, resumeSyncControl, updateSyncStatus, getSyncStatus, syncKindOf, SYNC_KINDS, type SyncStatus } from "../shared/storage";
+
+type ControlAction = "pause" | "resume" | "cancel";
+
+// Pause/cancel apply to whichever chains are in flight; a finished backfill or delta keeps its final state
+async function patchActiveStatuses(grantId: string, patch: Partial<SyncStatus>): Promise<void> {
+  for (const kind of SYNC_KINDS) {
+    const status = await getSyncStatus(grantId, kind);
+    if (status && (status.state === "queued" || status.state === "running" || status.state === "paused")) {
+      await updateSyncStatus(grantId, kind, () => patch);
+    }
+  }
+}
+
+async function applyControl(grantId: string, action: ControlAction, ctx: InvocationContext): Promise<HttpResponseInit> {
+  const control = await getSyncControl(grantId);
+  const now = Date.now();
+
+  if (action === "pause") {
+    if (control.state === "paused") return { status: 200, jsonBody: { ok: true, grantId, state: "paused", message: "Already paused" } };
+    // Workers hold the next job of each chain on their next check (one per kind, later ones merged); nothing runs until resume
+    await setSyncControl(grantId, { state: "paused", updatedAt: now });
+    await patchActiveStatuses(grantId, { state: "paused" });
+    ctx.log(`syncControl: paused grantId=${grantId}`);
+    return { status: 200, jsonBody: { ok: true, grantId, state: "paused" } };
+  }
+
+  if (action === "cancel") {
+    // Drops any held jobs; queued/scheduled pages enqueued before now are discarded by the worker
+    await setSyncControl(grantId, { state: "cancelled", updatedAt: now });
+    await patchActiveStatuses(grantId, { state: "cancelled", finishedAt: new Date(now).toISOString() });
+    ctx.log(`syncControl: cancelled grantId=${grantId} dropped=${control.pausedJobs?.length ?? 0}`);
+    return { status: 200, jsonBody: { ok: true, grantId, state: "cancelled" } };
+  }
+
+  // resume
+  const held = await resumeSyncControl(grantId);
+  if (!held) {
+    return { status: 409, jsonBody: { ok: false, grantId, state: control.state, error: "Sync is not paused" } };
+  }
+  const resumed = held.map(job => ({ ...job, attempt: 0 }));
+  for (const job of resumed) {
+    await enqueueBackfill(job);
+    await updateSyncStatus(grantId, syncKindOf(job), () => ({ state: "running" }));
+  }
+  ctx.log(`syncControl: resumed grantId=${grantId} jobs=${resumed.length} pages=${resumed.map(j => `${syncKindOf(j)}:${j.pageToken || "start"}`).join(",") || "-"}`);
+  return {
+    status: resumed.length ? 202 : 200,
+    jsonBody: {
+      ok: true,
+      grantId,
+      state: "active",
+      resumed: resumed.map(j => ({ kind: syncKindOf(j), pageToken: j.pageToken ?? null, sinceEpoch: j.sinceEpoch, processed: j.processed ?? 0 })),
+    },
+  };
+}
+
+function register(action: ControlAction) {
+  // POST /api/sync/{pause|resume|cancel}/{grantId}
+  app.http(`sync${action[0].toUpperCase()}${action.slice(1)}`, {
+    methods: ["POST"],
+    authLevel: "function",
+    route: `sync/${action}/{grantId}`,
+    handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+      try {
+        const grantId = (req.params.grantId || "").trim();
+        if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+        return await applyControl(grantId, action, ctx);
+      } catch (err: any) {
+        ctx.error?.(`syncControl ${action} error`, err);
+        return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+      }
+    },
+  });
+}
+
+register("pause");
+register("resume");
+register("cancel");
@@ -0,0 +1,28 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { getSyncStatus, listFailedJobs, SYNC_KINDS, type SyncStatus } from "../shared/storage";
+
+// GET /api/sync/status/{grantId}
+app.http("syncStatus", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "sync/status/{grantId}",
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const grantId = (req.params.grantId || "").trim();
+      if (!grantId) return { status: 400, jsonBody: { ok: false, error: "Missing required grantId" } };
+
+      const chains = (await Promise.all(SYNC_KINDS.map(kind => getSyncStatus(grantId, kind))))
+        .filter((s): s is SyncStatus => !!s)
+        .map(s => ({ ...s, percent: s.max > 0 ? Math.min(100, Math.round((s.processed / s.max) * 100)) : null }));
+      if (!chains.length) return { status: 404, jsonBody: { ok: false, grantId, error: "No sync has been recorded for this grant" } };
+
+      // Top-level fields describe the most recently started chain; `chains` has the backfill and delta slots
+      const latest = chains.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+      const failedJobs = (await listFailedJobs(grantId)).length;
+      return { status: 200, jsonBody: { ok: true, grantId, ...latest, failedJobs, chains: Object.fromEntries(chains.map(c => [c.kind, c])) } };
+    } catch (err: any) {
+      ctx.error?.("syncStatus error", err);
+      return { status: 500, jsonBody: { ok: false, error: err?.message || String(err) } };
+    }
+  },
+});
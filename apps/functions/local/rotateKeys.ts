@@ -0,0 +1,37 @@
+import { listKnownGrants, rewrapGrantSecrets, rotateGrantKeys } from "../shared/storage";
+
+// Re-wraps every grant's data keys (and stored registry API keys) with the current master key, and encrypts
+// content written before encryption was enabled. Run after changing STORAGE_MASTER_KEY, with the old key
+// still listed in STORAGE_MASTER_KEYS_PREVIOUS; remove it once this finishes.
+//   node dist/local/rotateKeys.js [--grant <grantId>] [--rotate-data-key]
+// --rotate-data-key also gives each grant a new data key and re-encrypts all of its content.
+
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const only = argValue("--grant");
+  const rotateDataKey = process.argv.includes("--rotate-data-key");
+  const grants = only ? [only] : await listKnownGrants();
+
+  let failed = 0;
+  for (const grantId of grants) {
+    try {
+      const r = await rotateGrantKeys(grantId, { rotateDataKey });
+      console.log(`keys.rotate grant=${grantId} rewrapped=${r.rewrapped} data_key_rotated=${r.dataKeyRotated} sealed=${r.sealed} resealed=${r.resealed}`);
+    } catch (e: any) {
+      failed++;
+      console.error(`keys.rotate.fail grant=${grantId} err=${e?.message || e}`);
+    }
+  }
+  if (!only) console.log(`keys.rotate.secrets rewrapped=${await rewrapGrantSecrets()}`);
+  console.log(`keys.rotate.done grants=${grants.length} failed=${failed}`);
+  if (failed) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import { InvocationContext, type LogLevel } from "@azure/functions";
+import { BACKFILL_QUEUE, ROLLUP_QUEUE, getJobQueue, localQueue, type QueuedJob } from "../shared/bus";
+import { handleBackfillMessage } from "../functions/backfillWorker";
+import { handleRollupMessage } from "../functions/rollupWorker";
+
+// Runs the queue-triggered workers against the file-backed queue (JOB_QUEUE=local), so backfill, delta and
+// webhook flows work without a Service Bus namespace. Jobs for one grant run one at a time, in order.
+//   JOB_QUEUE=local node dist/local/runner.js [--until-idle]
+// --until-idle exits once both queues are empty (scheduled jobs included) and nothing is running.
+
+const CONCURRENCY = Number(process.env.LOCAL_QUEUE_CONCURRENCY || 4);
+const MAX_DELIVERIES = Number(process.env.LOCAL_QUEUE_MAX_DELIVERIES || 10); // Service Bus default maxDeliveryCount
+const RETRY_SECONDS = Number(process.env.LOCAL_QUEUE_RETRY_SECONDS || 5);
+const POLL_MS = Number(process.env.LOCAL_QUEUE_POLL_MS || 500);
+
+type Worker = { queue: string; functionName: string; handler: (message: unknown, ctx: InvocationContext) => Promise<void> };
+
+const WORKERS: Worker[] = [
+  { queue: BACKFILL_QUEUE, functionName: "backfillWorker", handler: handleBackfillMessage },
+  { queue: ROLLUP_QUEUE, functionName: "rollupWorker", handler: handleRollupMessage },
+];
+
+function logHandler(functionName: string) {
+  return (level: LogLevel, ...args: unknown[]) => {
+    const line = [`[${functionName}]`, ...args];
+    if (level === "error" || level === "critical") console.error(...line);
+    else if (level === "warning") console.warn(...line);
+    else console.log(...line);
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+
+async function main() {
+  if (getJobQueue().kind !== "local") throw new Error("The local runner needs JOB_QUEUE=local");
+  const untilIdle = process.argv.includes("--until-idle");
+
+  for (const w of WORKERS) {
+    const n = await localQueue.recover(w.queue);
+    if (n) console.log(`runner.recover queue=${w.queue} jobs=${n}`);
+  }
+
+  const busy = new Map<string, Set<string>>(WORKERS.map(w => [w.queue, new Set<string>()]));
+  const inFlight = new Map<string, Promise<void>>();
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("runner.stopping waiting_for=" + inFlight.size);
+    stopping = true;
+  });
+
+  const run = (w: Worker, job: QueuedJob) => {
+    const sessions = busy.get(w.queue)!;
+    sessions.add(job.sessionId);
+    const ctx = new InvocationContext({ invocationId: job.id, functionName: w.functionName, logHandler: logHandler(w.functionName) });
+    const task = (async () => {
+      try {
+        await w.handler(job.body, ctx);
+        await localQueue.complete(job);
+      } catch (e: any) {
+        const outcome = await localQueue.abandon(job, MAX_DELIVERIES, RETRY_SECONDS);
+        console.error(`runner.fail queue=${w.queue} session=${job.sessionId} delivery=${job.deliveryCount} outcome=${outcome} err=${e?.message || e}`);
+      } finally {
+        sessions.delete(job.sessionId);
+        inFlight.delete(job.id);
+      }
+    })();
+    inFlight.set(job.id, task);
+  };
+
+  console.log(`runner.start queues=${WORKERS.map(w => w.queue).join(",")} concurrency=${CONCURRENCY}`);
+  while (!stopping) {
+    let started = 0;
+    for (const w of WORKERS) {
+      while (inFlight.size < CONCURRENCY) {
+        const job = await localQueue.receive(w.queue, busy.get(w.queue)!);
+        if (!job) break;
+        run(w, job);
+        started++;
+      }
+    }
+    if (started) continue;
+
+    if (untilIdle && !inFlight.size) {
+      const pending = await Promise.all(WORKERS.map(w => localQueue.pending(w.queue)));
+      if (pending.every(p => p.count === 0)) break;
+    }
+    await Promise.race([sleep(POLL_MS), ...inFlight.values()]);
+  }
+
+  await Promise.all(inFlight.values());
+  console.log("runner.stop");
+}
+
+main().catch((e) => {
+  console.error("runner.error", e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,278 @@
+import { downloadAttachment, NylasMessage } from "./nylas";
+import path from "node:path";
+import { analyzeImageBuffer, analyzePdfBuffer, summarizeLongTextMapReduce } from "./openai";
+import { saveAttachment, saveAttachmentPages, updateAttachmentBlob, type AttachmentBlob, type AttachmentOccurrence } from "./storage";
+import { extractPdfText, type PdfText } from "./pdf";
+import type { Redactor } from "./redaction";
+import { extractCsvText, extractDocxText, extractHtmlText, extractIcsText, extractPlainText, extractPptxText, extractXlsxText } from "./docText";
+
+// --- Attachment pipeline config (env) ---
+// ATTACH_CONCURRENCY: attachments downloaded/analyzed in parallel per message
+// ATTACH_MAX_BYTES: per-attachment cap; ATTACH_MAX_MESSAGE_BYTES: total per message
+// ATTACH_ALLOW_TYPES / ATTACH_DENY_TYPES: comma lists of content types, "image/*" style wildcards allowed
+export type AttachmentLimits = {
+  concurrency: number;
+  maxBytes: number;
+  maxMessageBytes: number;
+  allowTypes: string[];
+  denyTypes: string[];
+};
+
+function parseTypeList(raw: string | undefined, fallback: string): string[] {
+  return (raw ?? fallback)
+    .split(",")
+    .map(t => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function attachmentLimitsFromEnv(): AttachmentLimits {
+  return {
+    concurrency: Math.max(1, Number(process.env.ATTACH_CONCURRENCY || 3)),
+    maxBytes: Number(process.env.ATTACH_MAX_BYTES || 10 * 1024 * 1024),
+    maxMessageBytes: Number(process.env.ATTACH_MAX_MESSAGE_BYTES || 25 * 1024 * 1024),
+    allowTypes: parseTypeList(process.env.ATTACH_ALLOW_TYPES, "*"),
+    denyTypes: parseTypeList(process.env.ATTACH_DENY_TYPES, ""),
+  };
+}
+
+function typeMatches(contentType: string, patterns: string[]): boolean {
+  const ct = contentType.toLowerCase().split(";")[0].trim();
+  return patterns.some(p => p === "*" || p === ct || (p.endsWith("/*") && ct.startsWith(p.slice(0, -1))));
+}
+
+export type AttachmentSkipReason =
+  | "type_denied"
+  | "type_not_allowed"
+  | "too_large"
+  | "message_budget_exceeded"
+  | "unsupported_type"
+  | "download_failed"
+  | "analysis_failed"
+  | "redaction_policy"; // image withheld from the vision model by the grant's redaction policy
+
+export type AttachmentResult = {
+  attId: string;
+  filename: string;
+  contentType: string;
+  size: number; // bytes downloaded, or the size Nylas reported when not downloaded
+  analyzer: string | null; // registry kind that handled it (pdf, docx, ics, …)
+  analysis: string | null;
+  skipReason: AttachmentSkipReason | null;
+  contentHash: string | null; // sha256 of the bytes, once downloaded
+  reused: boolean; // analysis came from an earlier copy of the same bytes
+  error?: string;
+};
+
+// Run fn over items with at most `limit` in flight, preserving input order in the output
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  });
+  await Promise.all(workers);
+  return out;
+}
+
+// Per-page text lands next to the deduplicated blob as blobs/<hash>.pages.json so page numbers can be cited later
+async function savePdfPages(grantId: string, hash: string, pdf: PdfText): Promise<void> {
+  await saveAttachmentPages(grantId, hash, { info: pdf.info, encrypted: pdf.encrypted, truncated: pdf.truncated, pageCount: pdf.pages.length, pages: pdf.pages.map((text, i) => ({ page: i + 1, text })) });
+}
+
+async function analyzePdf(grantId: string, hash: string, content: Buffer, filename: string, redactor: Redactor | null): Promise<string> {
+  const pdf = extractPdfText(content);
+  await savePdfPages(grantId, hash, pdf);
+  return analyzePdfBuffer({ grantId, redactor }, content, filename, pdf);
+}
+
+// --- Analyzer registry ---
+// Resolved by content type first, then by file extension (mail clients often send application/octet-stream).
+// Text-based analyzers extract locally and share one summarize path; ATTACH_TEXT_MAX_CHARS bounds model input.
+type AnalyzeInput = { grantId: string; contentHash: string; content: Buffer; contentType: string; filename: string; redactor: Redactor | null };
+
+type AttachmentAnalyzer = {
+  kind: string;
+  types: string[]; // content types; "text/*" style wildcards allowed
+  extensions: string[];
+  analyze: (input: AnalyzeInput) => Promise<string>;
+};
+
+const TEXT_MAX_CHARS = Number(process.env.ATTACH_TEXT_MAX_CHARS || 100000);
+
+function textAnalyzer(kind: string, label: string, extract: (buf: Buffer) => string, focus: string): AttachmentAnalyzer["analyze"] {
+  return async ({ grantId, content, filename, redactor }) => {
+    const text = extract(content);
+    if (!text.trim()) return `No extractable text found in ${filename}.`;
+    const truncated = text.length > TEXT_MAX_CHARS;
+    const hint = `Attachment "${filename}" (${label}${truncated ? `, first ${TEXT_MAX_CHARS} characters` : ""}). ${focus}`;
+    return summarizeLongTextMapReduce({ grantId, redactor }, truncated ? text.slice(0, TEXT_MAX_CHARS) : text, hint);
+  };
+}
+
+const ANALYZERS: AttachmentAnalyzer[] = [
+  {
+    kind: "image",
+    types: ["image/*"],
+    extensions: ["png", "jpg", "jpeg", "gif", "webp"],
+    analyze: ({ grantId, content, contentType, filename, redactor }) => analyzeImageBuffer({ grantId, redactor }, content, contentType.startsWith("image/") ? contentType : `image/${path.extname(filename).slice(1).replace("jpg", "jpeg")}`, filename),
+  },
+  {
+    kind: "pdf",
+    types: ["application/pdf"],
+    extensions: ["pdf"],
+    analyze: ({ grantId, contentHash, content, filename, redactor }) => analyzePdf(grantId, contentHash, content, filename, redactor),
+  },
+  {
+    kind: "docx",
+    types: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: ["docx"],
+    analyze: textAnalyzer("docx", "Word document", extractDocxText, "Summarize the document: purpose, key points, decisions, action items, and tags."),
+  },
+  {
+    kind: "xlsx",
+    types: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    extensions: ["xlsx"],
+    analyze: textAnalyzer("xlsx", "spreadsheet", extractXlsxText, "Describe each sheet: what the rows represent, notable totals, outliers, and dates; then tags."),
+  },
+  {
+    kind: "pptx",
+    types: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    extensions: ["pptx"],
+    analyze: textAnalyzer("pptx", "slide deck", extractPptxText, "Summarize the deck slide by slide in brief, then key takeaways and tags."),
+  },
+  {
+    kind: "csv",
+    types: ["text/csv", "application/csv", "text/comma-separated-values", "text/tab-separated-values"],
+    extensions: ["csv", "tsv"],
+    analyze: textAnalyzer("csv", "CSV table", extractCsvText, "Describe what the rows represent, the columns, notable values, totals, and dates; then tags."),
+  },
+  {
+    kind: "ics",
+    types: ["text/calendar", "application/ics"],
+    extensions: ["ics"],
+    analyze: textAnalyzer("ics", "calendar invite", extractIcsText, "Keep exact dates, times, time zones, location, organizer and attendees; note whether it is an invite, update or cancellation."),
+  },
+  {
+    kind: "html",
+    types: ["text/html", "application/xhtml+xml"],
+    extensions: ["html", "htm"],
+    analyze: textAnalyzer("html", "HTML document", extractHtmlText, "Provide a concise summary, key topics, action items, and tags."),
+  },
+  {
+    kind: "text",
+    types: ["text/*", "application/json", "application/xml"],
+    extensions: ["txt", "md", "log", "json", "xml"],
+    analyze: textAnalyzer("text", "text file", extractPlainText, "Provide a concise summary, key topics, action items, and tags."),
+  },
+];
+
+// --- Content dedup ---
+// Occurrences are recorded on the per-grant blob record; the first analysis of a blob is reused by every later copy
+function withOccurrence(cur: AttachmentBlob | null, hash: string, size: number, contentType: string, occ: AttachmentOccurrence): AttachmentBlob {
+  const blob: AttachmentBlob = cur ?? { hash, size, contentType: contentType || undefined, createdAt: occ.seenAt, occurrences: [] };
+  const others = blob.occurrences.filter(o => !(o.messageId === occ.messageId && o.attId === occ.attId));
+  return { ...blob, occurrences: [...others, occ] };
+}
+
+// Identical attachments within one message (or concurrent messages) share one in-flight analysis
+const inflight = new Map<string, Promise<string>>();
+
+async function analyzeOnce(grantId: string, hash: string, kind: string, run: () => Promise<string>): Promise<{ analysis: string; reused: boolean }> {
+  const key = `${grantId}:${hash}`;
+  const pending = inflight.get(key);
+  if (pending) return { analysis: await pending, reused: true };
+  const p = run().then(async analysis => {
+    await updateAttachmentBlob(grantId, hash, cur => ({ ...(cur as AttachmentBlob), analyzer: kind, analysis, analyzedAt: new Date().toISOString() }));
+    return analysis;
+  });
+  inflight.set(key, p);
+  try {
+    return { analysis: await p, reused: false };
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+function resolveAnalyzer(contentType: string, filename: string): AttachmentAnalyzer | null {
+  const ct = contentType.toLowerCase().split(";")[0].trim();
+  if (ct && ct !== "application/octet-stream") {
+    const byType = ANALYZERS.find(a => typeMatches(ct, a.types));
+    if (byType) return byType;
+  }
+  const ext = path.extname(filename).toLowerCase().slice(1);
+  return ANALYZERS.find(a => a.extensions.includes(ext)) ?? null;
+}
+
+/**
+ * Download, store and analyze a message's attachments under the configured limits.
+ * Never throws for a single attachment; failures and policy skips come back as skipReason.
+ * Model input goes through `redactor` (the grant's redaction policy) when one is given.
+ */
+export async function processMessageAttachments(
+  grantId: string,
+  msg: NylasMessage,
+  limits: AttachmentLimits = attachmentLimitsFromEnv(),
+  redactor: Redactor | null = null
+): Promise<AttachmentResult[]> {
+  const refs = (Array.isArray(msg.attachments) ? msg.attachments : []).filter(a => a?.id);
+  let budget = limits.maxMessageBytes;
+
+  return mapWithConcurrency(refs, limits.concurrency, async (att): Promise<AttachmentResult> => {
+    const attId = att.id;
+    const declaredType = (att.content_type || "").toString();
+    const declaredSize = Number(att.size || 0);
+    const base = { attId, filename: att.filename || attId, contentType: declaredType, size: declaredSize, analyzer: null, analysis: null, contentHash: null, reused: false };
+
+    // Policy checks on what Nylas reported, before spending a download
+    if (declaredType && typeMatches(declaredType, limits.denyTypes)) return { ...base, skipReason: "type_denied" };
+    if (declaredType && !typeMatches(declaredType, limits.allowTypes)) return { ...base, skipReason: "type_not_allowed" };
+    if (declaredSize > limits.maxBytes) return { ...base, skipReason: "too_large" };
+    if (declaredSize > budget) return { ...base, skipReason: "message_budget_exceeded" };
+    budget -= declaredSize; // reserve before awaiting so parallel downloads can't overshoot
+
+    let content: Buffer;
+    let contentType = declaredType;
+    let fname = base.filename;
+    try {
+      const dl = await downloadAttachment(grantId, msg.id, attId);
+      content = dl.content;
+      contentType = dl.contentType || declaredType;
+      fname = dl.filename || fname;
+    } catch (e: any) {
+      budget += declaredSize;
+      return { ...base, skipReason: "download_failed", error: String(e?.message || e) };
+    }
+
+    // Sizes/types can be missing from the message payload; re-check against what was actually downloaded
+    budget -= Math.max(0, content.length - declaredSize);
+    const downloaded = { attId, filename: fname, contentType, size: content.length, analyzer: null, analysis: null, contentHash: null, reused: false };
+    if (contentType && typeMatches(contentType, limits.denyTypes)) return { ...downloaded, skipReason: "type_denied" };
+    if (contentType && !typeMatches(contentType, limits.allowTypes)) return { ...downloaded, skipReason: "type_not_allowed" };
+
+    const contentHash = await saveAttachment(grantId, msg.id, attId, fname, content, contentType);
+    const occurrence = { messageId: msg.id, attId, filename: fname, seenAt: new Date().toISOString() };
+    const blob = await updateAttachmentBlob(grantId, contentHash, cur => withOccurrence(cur, contentHash, content.length, contentType, occurrence));
+    const result = { ...downloaded, contentHash };
+
+    if (content.length > limits.maxBytes) return { ...result, skipReason: "too_large" };
+    if (budget < 0) return { ...result, skipReason: "message_budget_exceeded" };
+
+    // Same bytes analyzed before (logos, banners, re-sent invoices): reuse instead of calling the model again
+    if (blob.analysis && blob.analyzer) return { ...result, analyzer: blob.analyzer, analysis: blob.analysis, skipReason: null, reused: true };
+
+    const analyzer = resolveAnalyzer(contentType, fname);
+    if (!analyzer) return { ...result, skipReason: "unsupported_type" };
+    if (analyzer.kind === "image" && redactor?.policy.images === "skip") return { ...result, analyzer: analyzer.kind, skipReason: "redaction_policy" };
+    try {
+      const { analysis, reused } = await analyzeOnce(grantId, contentHash, analyzer.kind, () =>
+        analyzer.analyze({ grantId, contentHash, content, contentType, filename: fname, redactor })
+      );
+      return { ...result, analyzer: analyzer.kind, analysis, skipReason: null, reused };
+    } catch (e: any) {
+      return { ...result, analyzer: analyzer.kind, skipReason: "analysis_failed", error: String(e?.message || e) };
+    }
+  });
+}
@@ -1,4 +1,7 @@
+import { promises as fs } from "fs";
+import * as path from "path";
 import { ServiceBusClient, ServiceBusMessage } from "@azure/service-bus";
+import { dataPath, type SyncKind } from "./storage";
 
 export interface BackfillJob {
   grantId: string;
@@ -7,10 +10,33 @@ export interface BackfillJob {
   pageToken?: string;
   attempt?: number; // exponential backoff attempt count
   processed?: number; // total processed so far
+  enqueuedAt?: number; // ms since epoch the chain was first enqueued; carried across pages/retries for cancellation
+  kind?: SyncKind; // which sync status slot the chain reports to (see storage.ts)
+  coalesced?: boolean; // webhook delta: the worker takes sinceEpoch from the grant's pending window once it settles
+}
+
+// Rebuilds the day/week/month rollups marked dirty by page workers for one grant
+export interface RollupJob {
+  grantId: string;
+  requestedAt: number; // ms since epoch
+  attempt?: number; // retry attempt count after failures
 }
 
 const SB_CONNECTION = process.env.SERVICEBUS_CONNECTION;
 export const BACKFILL_QUEUE = process.env.SB_QUEUE_BACKFILL || "nylas-backfill";
+export const ROLLUP_QUEUE = process.env.SB_QUEUE_ROLLUP || "nylas-rollup";
+
+/**
+ * Where jobs go. JOB_QUEUE=servicebus (default) sends to session-enabled Service Bus queues;
+ * JOB_QUEUE=local writes them under DATA_DIR/queues for the local runner (local/runner.ts).
+ * Both use the grant id as the session, so one grant's jobs run one at a time and in order.
+ */
+export interface JobQueue {
+  readonly kind: "servicebus" | "local";
+  send(queue: string, sessionId: string, body: unknown, delaySeconds?: number): Promise<void>;
+}
+
+// --- Service Bus ---
 
 let _sbClient: ServiceBusClient | null = null;
 
@@ -22,21 +48,160 @@ function getClient(): ServiceBusClient {
   return _sbClient;
 }
 
-export async function enqueueBackfill(job: BackfillJob, delaySeconds = 0): Promise<void> {
-  const client = getClient();
-  const sender = client.createSender(BACKFILL_QUEUE);
-  const message: ServiceBusMessage = {
-    body: JSON.stringify(job),
-    sessionId: job.grantId,
-    contentType: "application/json",
-  };
-
-  if (delaySeconds > 0) {
-    const when = new Date(Date.now() + Math.round(delaySeconds * 1000));
-    await sender.scheduleMessages(message, when);
-  } else {
-    await sender.sendMessages(message);
+const serviceBusQueue: JobQueue = {
+  kind: "servicebus",
+  async send(queue, sessionId, body, delaySeconds = 0) {
+    const sender = getClient().createSender(queue);
+    const message: ServiceBusMessage = {
+      body: JSON.stringify(body),
+      sessionId,
+      contentType: "application/json",
+    };
+
+    if (delaySeconds > 0) {
+      const when = new Date(Date.now() + Math.round(delaySeconds * 1000));
+      await sender.scheduleMessages(message, when);
+    } else {
+      await sender.sendMessages(message);
+    }
+    await sender.close();
+  },
+};
+
+// --- Local (DATA_DIR/queues/<queue>/<seq>.json; claimed by renaming into processing/) ---
+
+export type QueuedJob = {
+  id: string; // file name, sortable by enqueue order
+  queue: string;
+  sessionId: string;
+  body: string;
+  enqueuedAt: number;
+  visibleAt: number; // ms since epoch; scheduled messages stay hidden until then
+  deliveryCount: number;
+};
+
+let localSeq = 0;
+
+function queueDir(queue: string, ...sub: string[]) {
+  return dataPath("queues", queue, ...sub);
+}
+
+async function writeQueued(job: QueuedJob, dir = queueDir(job.queue)): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, job.id);
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(job), "utf8");
+  await fs.rename(`${file}.tmp`, file);
+}
+
+async function readQueued(file: string): Promise<QueuedJob | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as QueuedJob;
+  } catch {
+    return null;
   }
-  await sender.close();
 }
 
+async function listQueued(dir: string): Promise<string[]> {
+  const names = await fs.readdir(dir).catch(() => [] as string[]);
+  return names.filter(n => n.endsWith(".json")).sort();
+}
+
+const localJobQueue: JobQueue = {
+  kind: "local",
+  async send(queue, sessionId, body, delaySeconds = 0) {
+    const now = Date.now();
+    // Zero-padded time + process-local counter keeps names unique and in enqueue order
+    const id = `${String(now).padStart(15, "0")}-${process.pid}-${String(localSeq++).padStart(6, "0")}.json`;
+    await writeQueued({
+      id,
+      queue,
+      sessionId,
+      body: JSON.stringify(body),
+      enqueuedAt: now,
+      visibleAt: now + Math.max(0, Math.round(delaySeconds * 1000)),
+      deliveryCount: 0,
+    });
+  },
+};
+
+export const localQueue = {
+  /**
+   * Claim the oldest visible job whose session is neither busy nor behind an earlier visible job of the
+   * same session. Returns null when nothing is runnable right now.
+   */
+  async receive(queue: string, busySessions: Set<string>): Promise<QueuedJob | null> {
+    const dir = queueDir(queue);
+    const now = Date.now();
+    const blocked = new Set(busySessions);
+    for (const name of await listQueued(dir)) {
+      const job = await readQueued(path.join(dir, name));
+      if (!job || job.visibleAt > now || blocked.has(job.sessionId)) continue;
+      blocked.add(job.sessionId);
+      await fs.mkdir(queueDir(queue, "processing"), { recursive: true });
+      try {
+        await fs.rename(path.join(dir, name), queueDir(queue, "processing", name));
+      } catch {
+        continue; // another runner claimed it
+      }
+      return { ...job, deliveryCount: job.deliveryCount + 1 };
+    }
+    return null;
+  },
+
+  async complete(job: QueuedJob): Promise<void> {
+    await fs.rm(queueDir(job.queue, "processing", job.id), { force: true });
+  },
+
+  /** Put a failed job back (visible after `delaySeconds`), or move it to deadletter/ once `maxDeliveries` is reached. */
+  async abandon(job: QueuedJob, maxDeliveries: number, delaySeconds: number): Promise<"retry" | "deadletter"> {
+    const processing = queueDir(job.queue, "processing", job.id);
+    if (job.deliveryCount >= maxDeliveries) {
+      await writeQueued(job, queueDir(job.queue, "deadletter"));
+      await fs.rm(processing, { force: true });
+      return "deadletter";
+    }
+    await writeQueued({ ...job, visibleAt: Date.now() + delaySeconds * 1000 });
+    await fs.rm(processing, { force: true });
+    return "retry";
+  },
+
+  /** Return jobs left in processing/ by a runner that died mid-job. Call once at startup, before receiving. */
+  async recover(queue: string): Promise<number> {
+    const names = await listQueued(queueDir(queue, "processing"));
+    for (const name of names) {
+      await fs.rename(queueDir(queue, "processing", name), queueDir(queue, name)).catch(() => {});
+    }
+    return names.length;
+  },
+
+  /** Jobs waiting in the queue (including scheduled ones) and the earliest time one becomes visible. */
+  async pending(queue: string): Promise<{ count: number; nextVisibleAt: number | null }> {
+    const dir = queueDir(queue);
+    let nextVisibleAt: number | null = null;
+    const names = await listQueued(dir);
+    for (const name of names) {
+      const job = await readQueued(path.join(dir, name));
+      if (job && (nextVisibleAt === null || job.visibleAt < nextVisibleAt)) nextVisibleAt = job.visibleAt;
+    }
+    return { count: names.length, nextVisibleAt };
+  },
+};
+
+let jobQueue: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+  if (jobQueue) return jobQueue;
+  const kind = (process.env.JOB_QUEUE || "servicebus").toLowerCase();
+  if (kind === "local") jobQueue = localJobQueue;
+  else if (kind === "servicebus") jobQueue = serviceBusQueue;
+  else throw new Error(`Unknown JOB_QUEUE "${kind}" (expected servicebus or local)`);
+  return jobQueue;
+}
+
+export async function enqueueBackfill(job: BackfillJob, delaySeconds = 0): Promise<void> {
+  await getJobQueue().send(BACKFILL_QUEUE, job.grantId, { ...job, enqueuedAt: job.enqueuedAt ?? Date.now() }, delaySeconds);
+}
+
+export async function enqueueRollup(job: RollupJob, delaySeconds = 0): Promise<void> {
+  await getJobQueue().send(ROLLUP_QUEUE, job.grantId, job, delaySeconds);
+}
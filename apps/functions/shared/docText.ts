@@ -0,0 +1,332 @@
+// Text extraction for non-PDF attachments: OOXML (docx/xlsx/pptx), CSV/TSV, iCalendar, HTML and plain text.
+// Each extractor returns readable text for the summarizer; none of them call the network.
+import { decodeEntities, normalizeEmailBody } from "./emailText";
+import { openZip, type ZipArchive } from "./zip";
+
+// Rows rendered per sheet/CSV; the rest are counted but not sent to the model
+const TABLE_MAX_ROWS = Number(process.env.ATTACH_TABLE_MAX_ROWS || 200);
+
+// --- Plain text / HTML ---
+/** Decode a text attachment, honouring UTF-8/UTF-16 BOMs and falling back to latin1 for invalid UTF-8. */
+export function decodeTextBuffer(buf: Buffer): string {
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return buf.toString("utf8", 3);
+  if (buf[0] === 0xff && buf[1] === 0xfe) return buf.toString("utf16le", 2);
+  if (buf[0] === 0xfe && buf[1] === 0xff) {
+    const swapped = Buffer.from(buf.subarray(2));
+    swapped.swap16();
+    return swapped.toString("utf16le");
+  }
+  const utf8 = buf.toString("utf8");
+  const bad = (utf8.match(/\uFFFD/g) || []).length;
+  return bad > utf8.length / 100 ? buf.toString("latin1") : utf8;
+}
+
+export function extractPlainText(buf: Buffer): string {
+  return decodeTextBuffer(buf).replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+export function extractHtmlText(buf: Buffer): string {
+  return normalizeEmailBody(decodeTextBuffer(buf)).text;
+}
+
+// --- Tables (CSV and spreadsheets share the rendering) ---
+function renderRows(rows: string[][]): string {
+  const nonEmpty = rows.filter(r => r.some(c => c.trim()));
+  if (!nonEmpty.length) return "";
+  const [header, ...body] = nonEmpty;
+  const shown = body.slice(0, TABLE_MAX_ROWS).map(r => r.map(c => c.replace(/\s+/g, " ").trim()).join(" | "));
+  const lines = [`Columns: ${header.map(c => c.trim()).join(" | ")}`, `Rows: ${body.length}`, ...shown];
+  if (body.length > shown.length) lines.push(`(${body.length - shown.length} more rows not shown)`);
+  return lines.join("\n");
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split("\n", 1)[0].replace(/"[^"]*"/g, "");
+  let best = ",";
+  let bestCount = 0;
+  for (const d of [",", ";", "\t", "|"]) {
+    const n = firstLine.split(d).length - 1;
+    if (n > bestCount) { best = d; bestCount = n; }
+  }
+  return best;
+}
+
+/** RFC 4180 CSV parsing (quoted fields, doubled quotes, embedded newlines); delimiter auto-detected when omitted. */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const d = delimiter ?? detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"') {
+        if (src[i + 1] === '"') { field += '"'; i++; } else quoted = false;
+      } else field += c;
+    } else if (c === '"' && field === "") quoted = true;
+    else if (c === d) { row.push(field); field = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field); rows.push(row); row = []; field = "";
+    } else field += c;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+export function extractCsvText(buf: Buffer, delimiter?: string): string {
+  return renderRows(parseCsv(decodeTextBuffer(buf), delimiter));
+}
+
+// --- OOXML ---
+function xmlText(s: string): string {
+  return decodeEntities(s);
+}
+
+function readXml(zip: ZipArchive, name: string): string | null {
+  const b = zip.read(name);
+  return b ? b.toString("utf8") : null;
+}
+
+// Title/author from docProps/core.xml, shared by all OOXML formats
+function coreProps(zip: ZipArchive): string[] {
+  const core = readXml(zip, "docProps/core.xml");
+  if (!core) return [];
+  const get = (tag: string) => {
+    const m = new RegExp(`<${tag}\\b[^>]*>([^<]*)</${tag}>`).exec(core);
+    return m ? xmlText(m[1]).trim() : "";
+  };
+  const out: string[] = [];
+  if (get("dc:title")) out.push(`Title: ${get("dc:title")}`);
+  if (get("dc:creator")) out.push(`Author: ${get("dc:creator")}`);
+  return out;
+}
+
+// Paragraph/run text for WordprocessingML and DrawingML parts
+function runsToText(xml: string, ns: "w" | "a"): string {
+  const re = new RegExp(`<${ns}:t(?:\\s[^>]*)?>([^<]*)</${ns}:t>|<${ns}:t\\s*/>|<${ns}:(tab|br)\\b[^>]*/>|</${ns}:(p|tc|tr)>`, "g");
+  let out = "";
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml))) {
+    if (m[1] !== undefined) out += xmlText(m[1]);
+    else if (m[2] === "tab") out += "\t";
+    else if (m[2] === "br") out += "\n";
+    else if (m[3] === "tc") out += " | ";
+    else if (m[3] === "p" || m[3] === "tr") out += "\n";
+  }
+  return out
+    .replace(/\n \| /g, " | ") // a cell's closing paragraph shouldn't break the row
+    .split("\n")
+    .map(l => l.replace(/[ \t]+/g, " ").replace(/( \| )+$/, "").replace(/ \|$/, "").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function extractDocxText(buf: Buffer): string {
+  const zip = openZip(buf);
+  const doc = readXml(zip, "word/document.xml");
+  if (!doc) throw new Error("DOCX has no word/document.xml");
+  const parts = [runsToText(doc, "w")];
+  // Footnotes/endnotes often carry references people search for
+  for (const name of ["word/footnotes.xml", "word/endnotes.xml"]) {
+    const xml = readXml(zip, name);
+    const text = xml ? runsToText(xml, "w") : "";
+    if (text) parts.push(text);
+  }
+  return [...coreProps(zip), parts.filter(Boolean).join("\n\n")].filter(Boolean).join("\n");
+}
+
+export function extractPptxText(buf: Buffer): string {
+  const zip = openZip(buf);
+  const slideNo = (n: string) => Number(/slide(\d+)\.xml$/.exec(n)?.[1] || 0);
+  const slides = zip.names.filter(n => /^ppt\/slides\/slide\d+\.xml$/.test(n)).sort((a, b) => slideNo(a) - slideNo(b));
+  const out = coreProps(zip);
+  for (const name of slides) {
+    const text = runsToText(readXml(zip, name) || "", "a");
+    if (text) out.push(`[Slide ${slideNo(name)}]\n${text}`);
+  }
+  return out.join("\n\n");
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() || "";
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return Math.max(0, n - 1);
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const m = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return m ? xmlText(m[1]) : undefined;
+}
+
+export function extractXlsxText(buf: Buffer): string {
+  const zip = openZip(buf);
+
+  const shared: string[] = [];
+  const sst = readXml(zip, "xl/sharedStrings.xml");
+  if (sst) {
+    for (const si of sst.match(/<si>[\s\S]*?<\/si>/g) || []) {
+      // Skip phonetic runs (<rPh>) so Japanese readings don't duplicate the text
+      const body = si.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+      shared.push(Array.from(body.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), m => xmlText(m[1])).join(""));
+    }
+  }
+
+  // Sheet names → part paths via the workbook relationships
+  const workbook = readXml(zip, "xl/workbook.xml") || "";
+  const rels = readXml(zip, "xl/_rels/workbook.xml.rels") || "";
+  const targets = new Map<string, string>();
+  for (const m of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(m[0], "Id");
+    const target = attr(m[0], "Target");
+    if (id && target) targets.set(id, target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  }
+  const sheets = Array.from(workbook.matchAll(/<sheet\b[^>]*>/g), m => ({
+    name: attr(m[0], "name") || "Sheet",
+    part: targets.get(attr(m[0], "r:id") || "") || "",
+  })).filter(s => s.part);
+
+  const out = coreProps(zip);
+  for (const sheet of sheets) {
+    const xml = readXml(zip, sheet.part);
+    if (!xml) continue;
+    const rows: string[][] = [];
+    for (const rm of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const row: string[] = [];
+      for (const cm of rm[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const tag = cm[1];
+        const inner = cm[2] || "";
+        const type = attr(tag, "t");
+        const v = /<v>([^<]*)<\/v>/.exec(inner)?.[1];
+        let value = "";
+        if (type === "s") value = shared[Number(v)] ?? "";
+        else if (type === "inlineStr") value = Array.from(inner.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), m => xmlText(m[1])).join("");
+        else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+        else if (v !== undefined) value = xmlText(v);
+        const ref = attr(tag, "r");
+        const col = ref ? columnIndex(ref) : row.length;
+        while (row.length < col) row.push("");
+        row[col] = value;
+      }
+      rows.push(row);
+    }
+    const rendered = renderRows(rows);
+    if (rendered) out.push(`[Sheet: ${sheet.name}]\n${rendered}`);
+  }
+  return out.join("\n\n");
+}
+
+// --- iCalendar ---
+export type CalendarEvent = {
+  summary: string;
+  start?: string;
+  end?: string;
+  allDay: boolean;
+  location?: string;
+  organizer?: string;
+  attendees: string[];
+  description?: string;
+  status?: string;
+  rrule?: string;
+  uid?: string;
+};
+
+export type Calendar = { method?: string; events: CalendarEvent[] };
+
+function icsUnescape(v: string): string {
+  return v.replace(/\\([nN,;\\])/g, (_m, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// "20261020T150000Z" → "2026-10-20T15:00:00Z"; floating/TZID times keep their zone as a suffix
+function icsDate(value: string, params: Record<string, string>): { iso: string; allDay: boolean } {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return { iso: value, allDay: false };
+  const date = `${m[1]}-${m[2]}-${m[3]}`;
+  if (!m[4]) return { iso: date, allDay: true };
+  const time = `${date}T${m[4]}:${m[5]}:${m[6] || "00"}`;
+  if (m[7]) return { iso: `${time}Z`, allDay: false };
+  return { iso: params.TZID ? `${time} (${params.TZID})` : time, allDay: false };
+}
+
+function icsPerson(value: string, params: Record<string, string>): string {
+  const email = value.replace(/^mailto:/i, "").trim();
+  const name = params.CN?.replace(/^"|"$/g, "");
+  const who = name && name !== email ? `${name} <${email}>` : email;
+  return params.PARTSTAT ? `${who} (${params.PARTSTAT.toLowerCase()})` : who;
+}
+
+/** Parse VEVENTs out of an iCalendar document (line unfolding, parameters, escaped text; nested VALARMs ignored). */
+export function parseIcs(text: string): Calendar {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const cal: Calendar = { events: [] };
+  const stack: string[] = [];
+  let ev: CalendarEvent | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    // NAME;PARAM=x;PARAM="a:b":VALUE — the value starts at the first colon outside quotes
+    let colon = -1;
+    let inQuote = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuote = !inQuote;
+      else if (line[i] === ":" && !inQuote) { colon = i; break; }
+    }
+    if (colon < 0) continue;
+    const [rawName, ...paramParts] = line.slice(0, colon).split(";");
+    const name = rawName.toUpperCase();
+    const value = line.slice(colon + 1);
+    const params: Record<string, string> = {};
+    for (const p of paramParts) {
+      const eq = p.indexOf("=");
+      if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1);
+    }
+
+    if (name === "BEGIN") {
+      stack.push(value.toUpperCase());
+      if (value.toUpperCase() === "VEVENT") ev = { summary: "", allDay: false, attendees: [] };
+      continue;
+    }
+    if (name === "END") {
+      if (stack.pop() === "VEVENT" && ev) { cal.events.push(ev); ev = null; }
+      continue;
+    }
+    const top = stack[stack.length - 1];
+    if (top === "VCALENDAR" && name === "METHOD") cal.method = value.trim().toUpperCase();
+    if (top !== "VEVENT" || !ev) continue;
+
+    switch (name) {
+      case "SUMMARY": ev.summary = icsUnescape(value); break;
+      case "DTSTART": { const d = icsDate(value, params); ev.start = d.iso; ev.allDay = d.allDay; break; }
+      case "DTEND": ev.end = icsDate(value, params).iso; break;
+      case "LOCATION": ev.location = icsUnescape(value); break;
+      case "DESCRIPTION": ev.description = icsUnescape(value).trim(); break;
+      case "STATUS": ev.status = value.trim().toUpperCase(); break;
+      case "RRULE": ev.rrule = value.trim(); break;
+      case "UID": ev.uid = value.trim(); break;
+      case "ORGANIZER": ev.organizer = icsPerson(value, params); break;
+      case "ATTENDEE": ev.attendees.push(icsPerson(value, params)); break;
+    }
+  }
+  return cal;
+}
+
+export function extractIcsText(buf: Buffer): string {
+  const cal = parseIcs(decodeTextBuffer(buf));
+  const kind = cal.method === "CANCEL" ? "Calendar cancellation" : cal.method === "REPLY" ? "Calendar reply" : "Calendar invite";
+  return cal.events
+    .map(e => [
+      `${kind}: ${e.summary || "(untitled event)"}`,
+      e.start ? `When: ${e.start}${e.end ? ` – ${e.end}` : ""}${e.allDay ? " (all day)" : ""}` : "",
+      e.rrule ? `Repeats: ${e.rrule}` : "",
+      e.location ? `Where: ${e.location}` : "",
+      e.organizer ? `Organizer: ${e.organizer}` : "",
+      e.attendees.length ? `Attendees: ${e.attendees.join(", ")}` : "",
+      e.status ? `Status: ${e.status}` : "",
+      e.description ? `\n${e.description}` : "",
+    ].filter(Boolean).join("\n"))
+    .join("\n\n");
+}
@@ -0,0 +1,180 @@
+// Email body normalization: HTML → readable text, then split what the message added
+// from quoted reply history, signatures and legal footers.
+
+export type NormalizedEmail = {
+  text: string; // full readable text (quotes, signature and footer included)
+  newText: string; // only what this message added
+  quotedText: string; // reply chain / quoted history
+  signature: string;
+  disclaimer: string;
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", bull: "•", middot: "·",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»",
+  copy: "©", reg: "®", trade: "™", deg: "°", euro: "€", pound: "£", yen: "¥", cent: "¢",
+  times: "×", divide: "÷", shy: "", zwnj: "", zwj: "", lrm: "", rlm: "",
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : m;
+    }
+    const v = NAMED_ENTITIES[code.toLowerCase()];
+    return v === undefined ? m : v;
+  });
+}
+
+const QUOTE_OPEN = "\u0001QUOTE_OPEN\u0001";
+const QUOTE_CLOSE = "\u0001QUOTE_CLOSE\u0001";
+
+function looksLikeHtml(s: string): boolean {
+  return /<(html|body|div|p|br|table|span|a|blockquote|style)\b[^>]*>/i.test(s);
+}
+
+function htmlToPlain(html: string): string {
+  let s = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(style|script|head|title|noscript)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, " ");
+
+  // Links: keep the URL next to the anchor text unless they're the same
+  s = s.replace(/<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a\s*>/gi, (_m, href: string, inner: string) => {
+    const label = inner.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+    const url = decodeEntities(href.trim());
+    if (!label) return url.startsWith("mailto:") ? url.slice(7) : url;
+    if (/^(mailto:|#|javascript:)/i.test(url) || decodeEntities(label) === url) return label;
+    return `${label} (${url})`;
+  });
+
+  s = s
+    .replace(/<blockquote\b[^>]*>/gi, `\n${QUOTE_OPEN}\n`)
+    .replace(/<\/blockquote\s*>/gi, `\n${QUOTE_CLOSE}\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(td|th)\s*>/gi, " \t")
+    .replace(/<\/?(p|div|tr|table|tbody|thead|ul|ol|li|h[1-6]|section|article|header|footer|hr|pre)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]*>/g, "");
+
+  s = decodeEntities(s);
+
+  // Prefix blockquote content with "> " per nesting level so quote detection treats it like plain text replies
+  const out: string[] = [];
+  let depth = 0;
+  for (const line of s.split("\n")) {
+    if (line.trim() === QUOTE_OPEN) { depth += 1; continue; }
+    if (line.trim() === QUOTE_CLOSE) { depth = Math.max(0, depth - 1); continue; }
+    out.push(depth && line.trim() ? "> ".repeat(depth) + line : line);
+  }
+  return out.join("\n");
+}
+
+function tidyWhitespace(s: string): string {
+  return s
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map(l => l.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Header lines that introduce the quoted history of a reply
+const REPLY_HEADER_PATTERNS: RegExp[] = [
+  /^On\b.{0,300}\bwrote:\s*$/i,
+  /^Le\b.{0,300}\ba écrit\s*:\s*$/i,
+  /^Am\b.{0,300}\bschrieb\b.{0,100}:\s*$/i,
+  /^El\b.{0,300}\bescribió:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+  /^_{10,}\s*$/,
+];
+
+function isOutlookHeaderBlock(lines: string[], i: number): boolean {
+  if (!/^\*?From:\*?\s+\S/i.test(lines[i])) return false;
+  const window = lines.slice(i + 1, i + 5).join("\n");
+  return /^\*?(Sent|Date):\*?\s/im.test(window) && /^\*?(To|Subject):\*?\s/im.test(window);
+}
+
+// Lines that introduce a forwarded message; its header block looks like Outlook reply history but was sent on purpose
+const FORWARD_MARKER_PATTERNS: RegExp[] = [
+  /^-{2,}\s*Forwarded message\s*-{2,}\s*$/i,
+  /^Begin forwarded message:?\s*$/i,
+  /^-{2,}\s*Weitergeleitete Nachricht\s*-{2,}\s*$/i,
+  /^-{2,}\s*Message transféré\s*-{2,}\s*$/i,
+];
+
+function findQuoteStart(lines: string[]): number {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+    // Everything below a forward marker is the forwarded content, headers included
+    if (FORWARD_MARKER_PATTERNS.some(re => re.test(line))) return -1;
+    if (REPLY_HEADER_PATTERNS.some(re => re.test(line))) return i;
+    // "On <date>, <name>" / "<addr> wrote:" wrapped over two lines
+    if (/^On\b/i.test(line) && i + 1 < lines.length && /\bwrote:\s*$/i.test(lines[i + 1]) && (line + lines[i + 1]).length < 400) return i;
+    if (isOutlookHeaderBlock(lines, i)) return i;
+    if (/^>/.test(line)) {
+      // Treat a run of ">" lines as the quoted tail only if little non-quoted text follows it
+      const rest = lines.slice(i).filter(l => l && !/^>/.test(l));
+      if (rest.join(" ").length < 400) return i;
+    }
+  }
+  return -1;
+}
+
+const SIGNATURE_PATTERNS: RegExp[] = [
+  /^--\s*$/,
+  /^Sent from my (iPhone|iPad|Android|Samsung|mobile|BlackBerry)/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail) for /i,
+  /^Get Outlook for (iOS|Android)/i,
+];
+
+const DISCLAIMER_PATTERN =
+  /(CONFIDENTIALITY NOTICE|DISCLAIMER|This (e-?mail|message|communication)( and any (attachments|files)[^.]{0,40})? (is|are|may be|contains?) (confidential|privileged|intended (solely|only))|If you (are not|have received this)[^.]{0,60}(intended recipient|in error))/i;
+
+/**
+ * Normalize an email body (HTML or plain text). Entities are decoded, style/script blocks dropped,
+ * paragraph breaks and link targets preserved, and the text split into new content vs quoted
+ * reply chain, signature and disclaimer. Forwarded messages stay in newText: they are what was sent.
+ */
+export function normalizeEmailBody(raw: string | null | undefined): NormalizedEmail {
+  const empty: NormalizedEmail = { text: "", newText: "", quotedText: "", signature: "", disclaimer: "" };
+  if (!raw) return empty;
+
+  const plain = looksLikeHtml(raw) ? htmlToPlain(raw) : decodeEntities(raw);
+  const text = tidyWhitespace(plain);
+  if (!text) return empty;
+
+  const lines = text.split("\n");
+  const q = findQuoteStart(lines);
+  const headLines = q >= 0 ? lines.slice(0, q) : lines;
+  const quotedText = q >= 0 ? lines.slice(q).join("\n").trim() : "";
+
+  // Disclaimer: a legal-footer paragraph in the back half of the new content
+  let body = headLines.join("\n");
+  let disclaimer = "";
+  const paragraphs = body.split(/\n\n/);
+  const half = Math.floor(body.length / 2);
+  let offset = 0;
+  for (let p = 0; p < paragraphs.length; p++) {
+    if (offset >= half && DISCLAIMER_PATTERN.test(paragraphs[p])) {
+      disclaimer = paragraphs.slice(p).join("\n\n").trim();
+      body = paragraphs.slice(0, p).join("\n\n");
+      break;
+    }
+    offset += paragraphs[p].length + 2;
+  }
+
+  // Signature: from the first delimiter/mobile footer onward
+  let signature = "";
+  const bodyLines = body.split("\n");
+  const sigIdx = bodyLines.findIndex((l, i) => i > 0 && SIGNATURE_PATTERNS.some(re => re.test(l)));
+  if (sigIdx > 0) {
+    signature = bodyLines.slice(sigIdx).join("\n").trim();
+    body = bodyLines.slice(0, sigIdx).join("\n");
+  }
+
+  return { text, newText: body.trim(), quotedText, signature, disclaimer };
+}
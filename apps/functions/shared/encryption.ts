@@ -0,0 +1,120 @@
+import crypto from "node:crypto";
+
+// Envelope encryption for stored mail content. Each grant has its own random data keys (AES-256-GCM) that
+// encrypt files; the data keys are stored wrapped by a master key that never touches storage.
+// storage.ts decides what gets sealed and keeps the wrapped keys in grants/<id>/keys/data-keys.json. Whether a
+// stored file is sealed follows from where it is stored, never from its bytes.
+
+/** Holds the master key(s). Wrapped data keys record which master key id wrapped them. */
+export interface MasterKeyProvider {
+  readonly currentKeyId: string;
+  wrap(dataKey: Buffer): Promise<{ masterKeyId: string; wrapped: string }>;
+  unwrap(masterKeyId: string, wrapped: string): Promise<Buffer>;
+}
+
+// Sealed layout: magic | data key id (4 bytes) | iv (12) | auth tag (16) | ciphertext
+// The AAD is magic | data key id | grant id | storage key, so a sealed file only opens where it was written.
+const MAGIC = Buffer.from("EAE1", "ascii");
+const KEY_ID_BYTES = 4;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + KEY_ID_BYTES + IV_BYTES + TAG_BYTES;
+
+function gcmEncrypt(key: Buffer, plain: Buffer, aad?: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function gcmDecrypt(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad?: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  if (aad) decipher.setAAD(aad);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function newDataKey(): { id: string; key: Buffer } {
+  return { id: crypto.randomBytes(KEY_ID_BYTES).toString("hex"), key: crypto.randomBytes(32) };
+}
+
+/** Where a sealed buffer is stored; bound into its AAD. */
+export type SealContext = { grantId: string; storageKey: string };
+
+function sealAad(keyIdBytes: Buffer, ctx: SealContext): Buffer {
+  return Buffer.concat([MAGIC, keyIdBytes, Buffer.from(`${ctx.grantId}\0${ctx.storageKey}`, "utf8")]);
+}
+
+function checkLayout(buf: Buffer): void {
+  if (buf.length < HEADER_BYTES || !buf.subarray(0, MAGIC.length).equals(MAGIC)) throw new Error("Not a sealed buffer");
+}
+
+/** Id of the data key a sealed buffer was encrypted with. Throws if the buffer doesn't have the sealed layout. */
+export function sealedKeyId(buf: Buffer): string {
+  checkLayout(buf);
+  return buf.subarray(MAGIC.length, MAGIC.length + KEY_ID_BYTES).toString("hex");
+}
+
+export function seal(dataKeyId: string, dataKey: Buffer, plain: Buffer, ctx: SealContext): Buffer {
+  const keyId = Buffer.from(dataKeyId, "hex");
+  const { iv, tag, ciphertext } = gcmEncrypt(dataKey, plain, sealAad(keyId, ctx));
+  return Buffer.concat([MAGIC, keyId, iv, tag, ciphertext]);
+}
+
+/** Throws unless `sealed` was sealed with `dataKey` for the same grant id and storage key. */
+export function open(dataKey: Buffer, sealed: Buffer, ctx: SealContext): Buffer {
+  checkLayout(sealed);
+  let at = MAGIC.length;
+  const keyId = sealed.subarray(at, (at += KEY_ID_BYTES));
+  const iv = sealed.subarray(at, (at += IV_BYTES));
+  const tag = sealed.subarray(at, (at += TAG_BYTES));
+  return gcmDecrypt(dataKey, iv, tag, sealed.subarray(at), sealAad(keyId, ctx));
+}
+
+// --- Env master keys ---
+// STORAGE_MASTER_KEY: 32 bytes as base64 or hex; STORAGE_MASTER_KEY_ID names it (default "k1").
+// STORAGE_MASTER_KEYS_PREVIOUS: "id:key,id:key" still accepted for unwrapping until `keys:rotate` re-wraps.
+// In Azure, point the setting at Key Vault with an @Microsoft.KeyVault(...) app-setting reference.
+
+function parseKey(value: string, name: string): Buffer {
+  const v = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(v) ? Buffer.from(v, "hex") : Buffer.from(v, "base64");
+  if (key.length !== 32) throw new Error(`${name} must be 32 bytes (base64 or hex)`);
+  return key;
+}
+
+function createEnvProvider(): MasterKeyProvider | null {
+  const current = process.env.STORAGE_MASTER_KEY;
+  if (!current) return null;
+  const currentKeyId = (process.env.STORAGE_MASTER_KEY_ID || "k1").trim();
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.STORAGE_MASTER_KEYS_PREVIOUS || "").split(",").map(e => e.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(":");
+    if (sep <= 0) throw new Error("STORAGE_MASTER_KEYS_PREVIOUS entries must look like <id>:<key>");
+    keys.set(entry.slice(0, sep), parseKey(entry.slice(sep + 1), `STORAGE_MASTER_KEYS_PREVIOUS[${entry.slice(0, sep)}]`));
+  }
+  keys.set(currentKeyId, parseKey(current, "STORAGE_MASTER_KEY"));
+
+  return {
+    currentKeyId,
+    async wrap(dataKey) {
+      const { iv, tag, ciphertext } = gcmEncrypt(keys.get(currentKeyId)!, dataKey);
+      return { masterKeyId: currentKeyId, wrapped: Buffer.concat([iv, tag, ciphertext]).toString("base64") };
+    },
+    async unwrap(masterKeyId, wrapped) {
+      const key = keys.get(masterKeyId);
+      if (!key) throw new Error(`Master key "${masterKeyId}" is not configured (set it in STORAGE_MASTER_KEYS_PREVIOUS)`);
+      const raw = Buffer.from(wrapped, "base64");
+      return gcmDecrypt(key, raw.subarray(0, IV_BYTES), raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES), raw.subarray(IV_BYTES + TAG_BYTES));
+    },
+  };
+}
+
+let provider: MasterKeyProvider | null | undefined;
+
+/** The configured master key provider, or null when encryption at rest is off (no STORAGE_MASTER_KEY). */
+export function getMasterKeyProvider(): MasterKeyProvider | null {
+  if (provider === undefined) provider = createEnvProvider();
+  return provider;
+}
@@ -0,0 +1,73 @@
+import { removeGrant } from "./grantRegistry";
+import { unregisterGrant } from "./nylasConfig";
+import { getGrantLifecycle, isValidGrantId, purgeGrantStorage, setGrantLifecycle, type GrantLifecycle } from "./storage";
+import { getVectorStore } from "./vectorStore";
+
+// Reacts to signed Nylas grant.* notifications and erases a grant's data on request (POST /api/grants/{grantId}/purge).
+
+export type GrantPurgeReport = {
+  grantId: string;
+  reason: string;
+  purgedAt: string;
+  vectors: { store: "pinecone" | "local"; namespace: string; deleted: number };
+  storage: { backend: "fs" | "azure"; objects: number; byArea: Record<string, number> };
+  apiKeyRemoved: boolean;
+  registryRemoved: boolean;
+  /** Data this purge cannot attribute to the grant and therefore leaves in place. */
+  retained: string[];
+};
+
+/**
+ * Erase everything stored for a grant: its vector namespace, grants/<id>/ (text, attachments, notes,
+ * summaries, AI cache, ledger, checkpoint, sync state), its registry entry and stored API key. The grant is marked deleted first,
+ * so queued backfill jobs and the delta timer stop instead of re-ingesting. Safe to repeat.
+ */
+export async function purgeGrant(grantId: string, reason: string): Promise<GrantPurgeReport> {
+  if (!isValidGrantId(grantId)) throw new Error(`Invalid grantId "${grantId}"`);
+  const purgedAt = new Date().toISOString();
+  await setGrantLifecycle(grantId, { state: "deleted", at: purgedAt, reason });
+
+  const store = getVectorStore();
+  const deletedVectors = await store.deleteNamespace(grantId);
+  const { backend, byArea } = await purgeGrantStorage(grantId);
+  const registryRemoved = await removeGrant(grantId);
+  const apiKeyRemoved = unregisterGrant(grantId);
+
+  return {
+    grantId,
+    reason,
+    purgedAt,
+    vectors: { store: store.kind, namespace: grantId, deleted: deletedVectors },
+    storage: {
+      backend,
+      objects: Object.values(byArea).reduce((a, b) => a + b, 0),
+      byArea,
+    },
+    apiKeyRemoved,
+    registryRemoved,
+    retained: [
+      "API keys configured as NYLAS_KEY_<grantId> app settings must be removed from the environment",
+    ],
+  };
+}
+
+/**
+ * Stop syncing a grant whose mailbox was disconnected (grant.deleted). Its data stays in place until an
+ * admin purges it; like a purge, the mark is not cleared by later grant.created/updated events.
+ */
+export async function markGrantDeleted(grantId: string, reason: string): Promise<void> {
+  await setGrantLifecycle(grantId, { state: "deleted", at: new Date().toISOString(), reason });
+}
+
+/** Stop syncing an expired grant; its data stays searchable until it is re-authenticated or purged. */
+export async function markGrantExpired(grantId: string, reason: string): Promise<void> {
+  await setGrantLifecycle(grantId, { state: "expired", at: new Date().toISOString(), reason });
+}
+
+/** Clear an expiry mark after re-authentication. Deleted (purged) grants stay deleted. Returns the mark cleared. */
+export async function reactivateGrant(grantId: string): Promise<GrantLifecycle | null> {
+  const cur = await getGrantLifecycle(grantId);
+  if (cur?.state !== "expired") return null;
+  await setGrantLifecycle(grantId, null);
+  return cur;
+}
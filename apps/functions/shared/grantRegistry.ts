@@ -0,0 +1,117 @@
+import {
+  isValidGrantId,
+  listGrantRecords,
+  loadGrantRecord,
+  readGrantSecret,
+  removeGrantRecord,
+  saveGrantRecord,
+  writeGrantSecret,
+  type GrantRecord,
+} from "./storage";
+import type { RedactionPolicy } from "./redaction";
+
+// Persisted registry of onboarded mailboxes (see storage.ts for the layout). Managed through the admin
+// functions in functions/grants.ts; read by getApiKeyForGrant, the backfill worker and deltaTimer.
+
+export type GrantRegistration = {
+  grantId: string;
+  owner?: string;
+  email?: string;
+  provider?: string;
+  keyRef?: string;
+  apiKey?: string; // stored as secret:<grantId>; takes precedence over keyRef
+  enabled?: boolean;
+  redaction?: Partial<RedactionPolicy> | null; // null drops the override (back to the env defaults)
+};
+
+const KEY_REF_PATTERN = /^(env:[A-Za-z_][A-Za-z0-9_]*|secret:[A-Za-z0-9._-]+)$/;
+
+export function isValidKeyRef(ref: string): boolean {
+  return KEY_REF_PATTERN.test(ref);
+}
+
+/** Create or update a grant. Fields left undefined keep their stored values; a new grant starts enabled. */
+export async function registerGrant(input: GrantRegistration): Promise<GrantRecord> {
+  const grantId = input.grantId.trim();
+  if (!grantId) throw new Error("grantId is required");
+  if (!isValidGrantId(grantId)) throw new Error(`Invalid grantId "${grantId}" (letters, digits, _ and - only)`);
+  if (input.keyRef && !isValidKeyRef(input.keyRef)) throw new Error(`Invalid keyRef "${input.keyRef}" (expected env:<NAME> or secret:<name>)`);
+
+  const now = new Date().toISOString();
+  const cur = await loadGrantRecord(grantId);
+  let keyRef = input.keyRef ?? cur?.keyRef;
+  if (input.apiKey) {
+    await writeGrantSecret(grantId, input.apiKey);
+    keyRef = `secret:${grantId}`;
+  }
+  const enabled = input.enabled ?? cur?.enabled ?? true;
+  const record: GrantRecord = {
+    ...cur,
+    grantId,
+    owner: input.owner ?? cur?.owner,
+    email: input.email ?? cur?.email,
+    provider: input.provider ?? cur?.provider,
+    keyRef,
+    enabled,
+    redaction: input.redaction === undefined ? cur?.redaction : input.redaction ?? undefined,
+    createdAt: cur?.createdAt ?? now,
+    updatedAt: now,
+  };
+  if (enabled) {
+    delete record.disabledAt;
+    delete record.disabledReason;
+  } else if (cur?.enabled !== false) {
+    record.disabledAt = now;
+  }
+  await saveGrantRecord(record);
+  return record;
+}
+
+export async function getGrant(grantId: string): Promise<GrantRecord | null> {
+  return loadGrantRecord(grantId);
+}
+
+export async function listGrants(opts: { enabledOnly?: boolean } = {}): Promise<GrantRecord[]> {
+  const records = await listGrantRecords();
+  return opts.enabledOnly ? records.filter(r => r.enabled) : records;
+}
+
+/** Enable or disable a registered grant. Returns null when the grant is not registered. */
+export async function setGrantEnabled(grantId: string, enabled: boolean, reason?: string): Promise<GrantRecord | null> {
+  const cur = await loadGrantRecord(grantId);
+  if (!cur) return null;
+  const now = new Date().toISOString();
+  const record: GrantRecord = { ...cur, enabled, updatedAt: now };
+  if (enabled) {
+    delete record.disabledAt;
+    delete record.disabledReason;
+  } else {
+    record.disabledAt = cur.enabled ? now : cur.disabledAt ?? now;
+    record.disabledReason = reason || cur.disabledReason;
+  }
+  await saveGrantRecord(record);
+  return record;
+}
+
+// Stamp the end of a sync chain; grants outside the registry are left alone
+export async function recordGrantSync(grantId: string, at = new Date()): Promise<void> {
+  const cur = await loadGrantRecord(grantId);
+  if (!cur) return;
+  await saveGrantRecord({ ...cur, lastSyncedAt: at.toISOString() });
+}
+
+/** Drop the grant's registry entry and any stored API key. */
+export async function removeGrant(grantId: string): Promise<boolean> {
+  return removeGrantRecord(grantId);
+}
+
+/** The API key a record points at, or null when it has no keyRef. Throws when the reference doesn't resolve. */
+export async function resolveGrantApiKey(record: GrantRecord): Promise<string | null> {
+  const ref = record.keyRef;
+  if (!ref) return null;
+  let key: string | null | undefined = null;
+  if (ref.startsWith("env:")) key = process.env[ref.slice("env:".length)];
+  else if (ref.startsWith("secret:")) key = await readGrantSecret(ref.slice("secret:".length));
+  if (!key) throw new Error(`API key reference ${ref} for grant ${record.grantId} did not resolve`);
+  return key;
+}
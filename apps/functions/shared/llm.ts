@@ -0,0 +1,203 @@
+import OpenAI from "openai";
+
+// Model provider behind openai.ts. LLM_PROVIDER=openai (default) calls the OpenAI API or any OpenAI-compatible
+// endpoint set by LLM_BASE_URL; LLM_PROVIDER=local (implied by SMOKE_TEST=1) is an offline, deterministic stand-in
+// with content-sensitive hashed embeddings and extractive summaries. The dev server
+// (server/embedding.js) loads this module from dist.
+
+export interface LlmProvider {
+  readonly name: "openai" | "local";
+  /** Model ids; part of the AI cache keys so results from different models never mix. */
+  readonly embedModel: string;
+  readonly textModel: string;
+  /** Whether results are worth persisting in the AI cache (the local provider is cheaper to recompute). */
+  readonly cacheable: boolean;
+  /** One embeddings request; output order matches input order. */
+  embed(inputs: string[]): Promise<number[][]>;
+  /** Follow `instructions` (may be empty) over `text`. */
+  summarize(text: string, instructions?: string): Promise<string>;
+  vision(prompt: string, buf: Buffer, mime: string): Promise<string>;
+}
+
+// --- OpenAI (or OpenAI-compatible) ---
+
+function createOpenAiProvider(): LlmProvider {
+  const baseURL = process.env.LLM_BASE_URL || process.env.OPENAI_BASE_URL || undefined;
+  const embedModel = process.env.OPENAI_EMBED_MODEL || "text-embedding-3-small";
+  const textModel = process.env.OPENAI_TEXT_MODEL || "gpt-5-mini";
+  let client: OpenAI | null = null;
+
+  // Self-hosted endpoints usually don't check the key, so only require one for api.openai.com
+  const getClient = () => {
+    if (client) return client;
+    const apiKey = process.env.OPENAI_API_KEY || (baseURL ? "unused" : "");
+    if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+    client = new OpenAI({ apiKey, baseURL });
+    return client;
+  };
+
+  return {
+    name: "openai",
+    embedModel,
+    textModel,
+    cacheable: true,
+
+    async embed(inputs) {
+      const res = await getClient().embeddings.create({ model: embedModel, input: inputs });
+      const out: number[][] = new Array(inputs.length);
+      for (const d of res?.data ?? []) out[d.index] = d.embedding as number[];
+      return out;
+    },
+
+    async summarize(text, instructions) {
+      const input = instructions ? `${instructions}\n\n${text}` : text;
+      const res = await getClient().responses.create({ model: textModel, input });
+      return res.output_text ?? "";
+    },
+
+    // Chat Completions for multimodal until Responses types stabilize
+    async vision(prompt, buf, mime) {
+      const dataUrl = `data:${mime};base64,${buf.toString("base64")}`;
+      const chat = await getClient().chat.completions.create({
+        model: textModel,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: dataUrl } },
+            ],
+          },
+        ],
+      });
+      return chat.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+// --- Local deterministic stand-in ---
+
+const STOPWORDS = new Set(
+  ("a an and are as at be but by for from has have he her his i if in into is it its me my no not of on or our " +
+    "she so that the their them there they this to was we were what when which who will with you your re fw fwd")
+    .split(" "),
+);
+
+// Crude suffix stripping so "invoices"/"invoiced" share the "invoice" feature
+function stem(t: string): string {
+  if (t.length > 5 && t.endsWith("ing")) return t.slice(0, -3);
+  if (t.length > 4 && t.endsWith("ed")) return t.slice(0, -1);
+  if (t.length > 3 && t.endsWith("s") && !t.endsWith("ss")) return t.slice(0, -1);
+  return t;
+}
+
+function tokenize(text: string): string[] {
+  return (text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+// 32-bit FNV-1a over UTF-16 code units
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Feature-hashed bag of words: words, adjacent word pairs and character trigrams (so "invoice" and
+ * "invoices" overlap), log-scaled and L2-normalized. Similar texts get similar vectors.
+ */
+export function hashedEmbedding(text: string, dim: number): number[] {
+  const weights = new Map<string, number>();
+  const add = (f: string, w: number) => weights.set(f, (weights.get(f) ?? 0) + w);
+  const tokens = tokenize(text);
+  for (let i = 0; i < tokens.length; i++) {
+    const t = stem(tokens[i]);
+    add(`w:${t}`, 1);
+    if (i + 1 < tokens.length) add(`b:${t} ${stem(tokens[i + 1])}`, 0.5);
+    const padded = `#${t}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.2);
+  }
+
+  const vec = new Array<number>(dim).fill(0);
+  for (const [f, w] of weights) {
+    const h = fnv1a(f);
+    vec[h % dim] += (h & 0x80000000 ? -1 : 1) * Math.log1p(w);
+  }
+  const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0));
+  // Pinecone rejects all-zero dense vectors; give empty text a fixed direction instead
+  if (!norm) {
+    vec[0] = 1;
+    return vec;
+  }
+  return vec.map(v => v / norm);
+}
+
+/** Top sentences by summed term frequency (length-normalized), in original order, plus frequent terms as tags. */
+export function extractiveSummary(text: string, maxSentences: number): string {
+  const seen = new Set<string>();
+  const sentences = text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map(s => s.replace(/^[\s\-*•>]+/, "").replace(/\s+/g, " ").trim())
+    .filter(s => {
+      const key = s.toLowerCase();
+      if (s.length < 20 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  if (!sentences.length) return text.replace(/\s+/g, " ").trim().slice(0, 300);
+
+  const freq = new Map<string, number>();
+  const sentenceTokens = sentences.map(s => tokenize(s));
+  for (const toks of sentenceTokens) for (const t of toks) freq.set(t, (freq.get(t) ?? 0) + 1);
+
+  const ranked = sentences
+    .map((s, i) => ({ i, s, score: sentenceTokens[i].reduce((sum, t) => sum + (freq.get(t) ?? 0), 0) / Math.sqrt(sentenceTokens[i].length || 1) }))
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.i - b.i);
+
+  const tags = Array.from(freq.entries())
+    .filter(([t]) => !/^\d+$/.test(t))
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, 8)
+    .map(([t]) => t);
+
+  const bullets = ranked.map(r => `- ${r.s.length > 300 ? `${r.s.slice(0, 297)}...` : r.s}`);
+  return [...bullets, "", `Tags: ${tags.join(", ")}`].join("\n");
+}
+
+function createLocalProvider(): LlmProvider {
+  const dim = Number(process.env.LOCAL_EMBED_DIM || 384);
+  const maxSentences = Number(process.env.LOCAL_SUMMARY_SENTENCES || 5);
+  return {
+    name: "local",
+    embedModel: `local-hash-${dim}`,
+    textModel: "local-extractive",
+    cacheable: false,
+    async embed(inputs) {
+      return inputs.map(t => hashedEmbedding(t, dim));
+    },
+    // Instructions are ignored: the summary is drawn from the text itself
+    async summarize(text) {
+      return extractiveSummary(text, maxSentences);
+    },
+    async vision(_prompt, buf, mime) {
+      return `Image attachment (${mime}, ${buf.length} bytes); visual content is not analyzed by the local provider.`;
+    },
+  };
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+  const name = (process.env.LLM_PROVIDER || (process.env.SMOKE_TEST === "1" ? "local" : "openai")).toLowerCase();
+  if (name === "local") provider = createLocalProvider();
+  else if (name === "openai") provider = createOpenAiProvider();
+  else throw new Error(`Unknown LLM_PROVIDER "${name}" (expected openai or local)`);
+  return provider;
+}
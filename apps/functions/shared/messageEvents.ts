@@ -0,0 +1,139 @@
+import { enqueueRollup } from "./bus";
+import type { NylasMessage } from "./nylas";
+import { embedTexts, summarizeNotes } from "./openai";
+import { getRedactor } from "./redaction";
+import { weekKeyFromDayKey } from "./shard";
+import {
+  deleteCleanText,
+  deleteSummary,
+  loadMessageLedger,
+  loadThreadNotes,
+  markRollupsDirty,
+  removeMessageAttachments,
+  replaceDayNote,
+  replaceThreadNote,
+  saveMessageLedger,
+  saveSummary,
+} from "./storage";
+import { getVectorStore, type VectorMetadata } from "./vectorStore";
+
+// Applies message.updated / message.deleted notifications to what backfill already ingested, without
+// re-fetching or re-summarizing. Only messages recorded in the ledger are touched.
+
+const ROLLUP_DEBOUNCE_SECONDS = Number(process.env.ROLLUP_DEBOUNCE_SECONDS || 60);
+
+export type MessageFlags = Pick<NylasMessage, "unread" | "starred" | "folders">;
+
+/** Flag fields present on `msg` as vector metadata; absent fields are left out so a patch never resets them. */
+export function messageFlagMetadata(msg: Partial<MessageFlags>): VectorMetadata {
+  const md: Record<string, boolean | string[]> = {};
+  if (typeof msg.unread === "boolean") md.unread = msg.unread;
+  if (typeof msg.starred === "boolean") md.starred = msg.starred;
+  if (Array.isArray(msg.folders)) md.folders = msg.folders.map(String);
+  return md as VectorMetadata;
+}
+
+// Ids of the message's own vectors that carry flags (attachment vectors don't)
+function flaggedVectorIds(messageId: string, chunks = 0): string[] {
+  return [`msg:${messageId}`, ...Array.from({ length: chunks }, (_, n) => `chunk:${messageId}:${n}`)];
+}
+
+export type MessageUpdateResult = { indexed: boolean; patched: number };
+
+/** Patch unread/starred/folders on the message's msg: and chunk: vectors. */
+export async function applyMessageUpdate(grantId: string, messageId: string, flags: Partial<MessageFlags>): Promise<MessageUpdateResult> {
+  const entry = (await loadMessageLedger(grantId))[messageId];
+  const metadata = messageFlagMetadata(flags);
+  if (!entry || !Object.keys(metadata).length) return { indexed: Boolean(entry), patched: 0 };
+
+  const store = getVectorStore();
+  const ids = flaggedVectorIds(messageId, entry.chunks);
+  for (const id of ids) await store.update(grantId, id, metadata);
+  return { indexed: true, patched: ids.length };
+}
+
+export type MessageDeletionResult = {
+  indexed: boolean;
+  vectors: number;
+  attachmentFiles: number;
+  blobsDeleted: number;
+  dayKey?: string;
+  threadId?: string;
+  threadSummary?: "rebuilt" | "deleted";
+  rollupScheduled: boolean;
+};
+
+/**
+ * Remove everything ingested for one message: msg:/chunk:/file: vectors, stored text, attachment pointers
+ * (and blobs no other message uses), its day and thread notes, and its ledger entry. The thread summary is
+ * rebuilt from the remaining notes, or dropped when the thread has no messages left; the day/week/month
+ * rollups are marked dirty, and the rollup worker rebuilds or drops them the same way.
+ */
+export async function deleteMessage(grantId: string, messageId: string): Promise<MessageDeletionResult> {
+  const ledger = await loadMessageLedger(grantId);
+  const entry = ledger[messageId];
+  const store = getVectorStore();
+
+  // Chunk and attachment vector ids start with the message id; the ledger chunk count covers stores that can't list
+  const ids = new Set(flaggedVectorIds(messageId, entry?.chunks));
+  for (const prefix of [`chunk:${messageId}:`, `file:${messageId}:`]) {
+    for (const m of await store.list(grantId, { prefix })) ids.add(m.id);
+  }
+  await store.delete(grantId, Array.from(ids));
+
+  await deleteCleanText(grantId, messageId);
+  const attachments = await removeMessageAttachments(grantId, messageId);
+
+  const dayKey = entry?.day_key;
+  const threadId = entry?.thread_id;
+  if (dayKey) await replaceDayNote(grantId, threadId, dayKey, messageId, null);
+  let threadSummary: MessageDeletionResult["threadSummary"];
+  if (threadId) {
+    await replaceThreadNote(grantId, threadId, messageId, null);
+    threadSummary = await refreshThreadSummary(grantId, threadId);
+  }
+
+  if (entry) {
+    delete ledger[messageId];
+    await saveMessageLedger(grantId, ledger);
+  }
+
+  let rollupScheduled = false;
+  if (dayKey) {
+    const keys = { days: [dayKey], weeks: [weekKeyFromDayKey(dayKey)], months: [dayKey.slice(0, 7)] };
+    if (await markRollupsDirty(grantId, keys, Date.now() + ROLLUP_DEBOUNCE_SECONDS * 1000)) {
+      await enqueueRollup({ grantId, requestedAt: Date.now() }, ROLLUP_DEBOUNCE_SECONDS);
+      rollupScheduled = true;
+    }
+  }
+
+  return {
+    indexed: Boolean(entry),
+    vectors: ids.size,
+    attachmentFiles: attachments.files,
+    blobsDeleted: attachments.blobsDeleted,
+    dayKey,
+    threadId,
+    threadSummary,
+    rollupScheduled,
+  };
+}
+
+// Same summary and vector the backfill writes for a thread, so the deleted message no longer shows through it
+async function refreshThreadSummary(grantId: string, threadId: string): Promise<"rebuilt" | "deleted"> {
+  const store = getVectorStore();
+  const notes = await loadThreadNotes(grantId, threadId);
+  if (!notes.length) {
+    await store.delete(grantId, [`summary:thread:${threadId}`]);
+    await deleteSummary(grantId, "thread", threadId);
+    return "deleted";
+  }
+  const ai = { grantId, redactor: await getRedactor(grantId) };
+  const summary = await summarizeNotes(ai, notes, `Thread rollup for ${threadId} (${notes.length} messages)`);
+  await saveSummary(grantId, "thread", threadId, summary);
+  const [values] = await embedTexts(ai, [summary]);
+  const metadata = { type: "thread", grant_id: grantId, thread_id: threadId } as unknown as VectorMetadata;
+  const report = await store.upsert(grantId, [{ id: `summary:thread:${threadId}`, values, metadata }]);
+  if (report.failed.length) throw new Error(`thread summary upsert failed: ${report.failed[0].error}`);
+  return "rebuilt";
+}
@@ -6,6 +6,9 @@ export interface NylasEmailAddress {
 export interface NylasAttachmentRef {
   id: string;
   filename?: string;
+  content_type?: string;
+  size?: number; // bytes, as reported by Nylas before download
+  is_inline?: boolean;
 }
 
 export interface NylasMessage {
@@ -16,6 +19,8 @@ export interface NylasMessage {
   to?: NylasEmailAddress[];
   date?: number; // seconds since epoch
   unread?: boolean;
+  starred?: boolean;
+  folders?: string[]; // folder/label ids
   attachments?: NylasAttachmentRef[];
   body?: string | null;
 }
@@ -65,13 +70,15 @@ export async function listMessages(params: ListMessagesParams): Promise<ListMess
       to: [{ email: `to-${i}@example.com` }],
       date: nowSec - i * 60,
       unread: i % 2 === 0,
+      starred: false,
+      folders: ["INBOX"],
       attachments: [],
       body: `Hello from ${key} index ${i}. since=${sinceEpoch}`,
     });
     return { messages: Array.from({ length: n }, (_, i) => makeMsg(i)), nextCursor: next };
   }
 
-  const apiKey = getApiKeyForGrant(grantId);
+  const apiKey = await getApiKeyForGrant(grantId);
 
   const url = new URL(`${NYLAS_BASE}/grants/${encodeURIComponent(grantId)}/messages`);
   url.searchParams.set("limit", String(Math.min(limit, 200)));
@@ -85,6 +92,8 @@ export async function listMessages(params: ListMessagesParams): Promise<ListMess
       "to",
       "date",
       "unread",
+      "starred",
+      "folders",
       "attachments",
       "body",
     ].join(",")
@@ -126,7 +135,7 @@ export async function downloadAttachment(
     return { content: Buffer.from("mock-attachment"), contentType: "application/octet-stream", filename: `${attachmentId}.bin` };
   }
   
-  const apiKey = getApiKeyForGrant(grantId);
+  const apiKey = await getApiKeyForGrant(grantId);
 
   // 1) Metadata
   const metaUrl = new URL(
@@ -1,14 +1,16 @@
 // Multi-tenant Nylas configuration for Azure Functions
 // Maps Grant IDs to their corresponding API keys
 
+import { getGrant, listGrants, registerGrant as saveGrant, resolveGrantApiKey } from './grantRegistry';
+
 /**
  * Grant ID -> API Key mapping
- * 
- * In production, load from:
- * - Azure Key Vault (recommended)
- * - Azure Table Storage / Cosmos DB
- * - Environment variables with naming convention
- * 
+ *
+ * Keys are looked up in order:
+ * - The persisted grant registry (grantRegistry.ts), managed via /api/grants
+ * - Environment variables with naming convention (legacy)
+ * - NYLAS_API_KEY as the app-wide default
+ *
  * Format: NYLAS_KEY_<GRANT_ID>=<api_key>
  */
 
@@ -35,11 +37,18 @@ if (DEFAULT_API_KEY && DEFAULT_GRANT_ID) {
  * Get the API key for a specific grant ID
  * @param grantId - The Nylas grant ID
  * @returns The API key for this grant
- * @throws Error if no API key is configured for this grant
+ * @throws Error if the grant is disabled in the registry, or no API key is configured for it
  */
-export function getApiKeyForGrant(grantId: string): string {
+export async function getApiKeyForGrant(grantId: string): Promise<string> {
   if (!grantId) throw new Error('Grant ID is required');
-  
+
+  const record = await getGrant(grantId);
+  if (record) {
+    if (!record.enabled) throw new Error(`Grant ${grantId} is disabled`);
+    const registered = await resolveGrantApiKey(record);
+    if (registered) return registered;
+  }
+
   const apiKey = grantApiKeyMap.get(grantId);
   
   if (!apiKey) {
@@ -55,23 +64,36 @@ export function getApiKeyForGrant(grantId: string): string {
 }
 
 /**
- * Register a new grant with its API key (runtime registration)
+ * Register a new grant with its API key in the persisted registry
  * Useful for OAuth flows or admin panels
  * @param grantId - The Nylas grant ID
  * @param apiKey - The Nylas API key for this grant
  */
-export function registerGrant(grantId: string, apiKey: string): void {
+export async function registerGrant(grantId: string, apiKey: string): Promise<void> {
   if (!grantId || !apiKey) throw new Error('Both grantId and apiKey are required');
-  grantApiKeyMap.set(grantId, apiKey);
+  await saveGrant({ grantId, apiKey });
   console.log(`[Nylas] Registered grant: ${grantId}`);
 }
 
 /**
- * List all registered grant IDs
+ * Forget a grant's env-configured API key (runtime only; keys from NYLAS_KEY_* come back on restart)
+ * Used when a grant is deleted or purged
+ * @param grantId - The Nylas grant ID
+ * @returns true if a key was registered for this grant
+ */
+export function unregisterGrant(grantId: string): boolean {
+  const removed = grantApiKeyMap.delete(grantId);
+  if (removed) console.log(`[Nylas] Unregistered grant: ${grantId}`);
+  return removed;
+}
+
+/**
+ * List all registered grant IDs (registry and env-configured)
  * @returns Array of grant IDs
  */
-export function listRegisteredGrants(): string[] {
-  return Array.from(grantApiKeyMap.keys());
+export async function listRegisteredGrants(): Promise<string[]> {
+  const registry = (await listGrants()).map(r => r.grantId);
+  return Array.from(new Set([...registry, ...grantApiKeyMap.keys()]));
 }
 
 /**
@@ -79,6 +101,8 @@ export function listRegisteredGrants(): string[] {
  * @param grantId - The Nylas grant ID
  * @returns true if API key exists for this grant
  */
-export function hasApiKeyForGrant(grantId: string): boolean {
+export async function hasApiKeyForGrant(grantId: string): Promise<boolean> {
+  const record = await getGrant(grantId);
+  if (record) return record.enabled && (!!record.keyRef || !!DEFAULT_API_KEY);
   return grantApiKeyMap.has(grantId) || !!DEFAULT_API_KEY;
 }
@@ -1,70 +1,200 @@
-import OpenAI from "openai";
+import { normalizeEmailBody } from "./emailText";
+import { getLlmProvider, type LlmProvider } from "./llm";
+import { extractPdfText, type PdfText } from "./pdf";
+import type { Redactor } from "./redaction";
+import { attachmentHash, contentHash, readAiCache, writeAiCache } from "./storage";
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const OPENAI_EMBED_MODEL = process.env.OPENAI_EMBED_MODEL || "text-embedding-3-small";
-const OPENAI_TEXT_MODEL = process.env.OPENAI_TEXT_MODEL || "gpt-5-mini";
+// Model calls go through the configured LlmProvider (see llm.ts); this module adds batching, retries and caching.
+// Every call is made on behalf of one grant (AiScope): results are cached under that grant, and with a Redactor
+// (redaction.ts) input is redacted before cache lookup and the model call, and summaries are restored before return.
+export type AiScope = { grantId: string; redactor?: Redactor | null };
 
-if (!OPENAI_API_KEY) {
-  // Don't throw at import time to allow tooling to load; throw when used instead
+// --- Persistent model cache ---
+// Results keyed by (model, prompt/hint, content hash) under the grant's cache/ area (sealed, removed by a purge),
+// so replays and retries skip the API. AI_CACHE=0 disables it. Counters are process-wide; workers log the delta over an invocation in their ai.metric line.
+type CacheKind = "embed" | "summary" | "vision";
+export type AiCacheCounters = Record<CacheKind, { hit: number; miss: number }>;
+
+const AI_CACHE_ENABLED = process.env.AI_CACHE !== "0";
+const cacheCounters: AiCacheCounters = { embed: { hit: 0, miss: 0 }, summary: { hit: 0, miss: 0 }, vision: { hit: 0, miss: 0 } };
+
+function cacheEnabled(): boolean {
+  return AI_CACHE_ENABLED && getLlmProvider().cacheable;
+}
+
+async function cacheLookup<T>(scope: AiScope, kind: CacheKind, key: string): Promise<T | undefined> {
+  if (!cacheEnabled()) return undefined;
+  const hit = await readAiCache<{ value: T }>(scope.grantId, kind, key);
+  if (hit) {
+    cacheCounters[kind].hit++;
+    return hit.value;
+  }
+  cacheCounters[kind].miss++;
+  return undefined;
+}
+
+async function cacheStore(scope: AiScope, kind: CacheKind, key: string, value: unknown): Promise<void> {
+  if (!cacheEnabled()) return;
+  // Cache writes are best-effort; a failed write only costs a future miss
+  await writeAiCache(scope.grantId, kind, key, { value, createdAt: new Date().toISOString() }).catch(() => {});
+}
+
+async function cached<T>(scope: AiScope, kind: CacheKind, key: string, compute: () => Promise<T>, keep: (v: T) => boolean): Promise<T> {
+  const hit = await cacheLookup<T>(scope, kind, key);
+  if (hit !== undefined) return hit;
+  const value = await compute();
+  if (keep(value)) await cacheStore(scope, kind, key, value);
+  return value;
+}
+
+export function aiCacheSnapshot(): AiCacheCounters {
+  return JSON.parse(JSON.stringify(cacheCounters)) as AiCacheCounters;
+}
+
+// "embed_hit=3 embed_miss=1 …" since `before`, for appending to ai.metric lines
+export function formatAiCacheDelta(before: AiCacheCounters): string {
+  return (Object.keys(cacheCounters) as CacheKind[])
+    .map(k => `${k}_hit=${cacheCounters[k].hit - before[k].hit} ${k}_miss=${cacheCounters[k].miss - before[k].miss}`)
+    .join(" ");
 }
 
 // --- Cleaning helpers ---
+// Full readable text of an email body; see normalizeEmailBody for the new-content/quote split
 export function cleanText(htmlOrText: string | null | undefined): string {
-  if (!htmlOrText) return "";
-  // Very simple HTML stripper for MVP
-  const noTags = htmlOrText.replace(/<[^>]*>/g, " ");
-  return noTags.replace(/\s+/g, " ").trim();
+  return normalizeEmailBody(htmlOrText).text;
 }
 export const htmlToText = cleanText;
 
-// --- Embeddings (Text Embedding 3 family) ---
-export async function embedText(text: string): Promise<number[]> {
-  if (process.env.SMOKE_TEST === "1") {
-    // Return a deterministic small vector for smoke tests without hitting OpenAI
-    const dim = Number(process.env.OPENAI_EMBED_DIM || 64);
-    return Array(dim).fill(0).map((_, i) => (i % 7 === 0 ? 0.1 : 0));
+// Overlapping fixed-size chunks with their character offsets into the source text
+export type TextChunk = { index: number; start: number; end: number; text: string };
+
+export function chunkText(text: string, maxChars = 3500, overlap = 400): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const end = Math.min(text.length, i + maxChars);
+    chunks.push({ index: chunks.length, start: i, end, text: text.slice(i, end) });
+    if (end === text.length) break;
+    i = Math.max(i + 1, end - overlap);
   }
+  return chunks;
+}
 
-  if (!OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not configured");
-  const client = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const MAX_EMBED_CHARS = Number(process.env.OPENAI_EMBED_MAX_CHARS || '12000');
-  const trimmed = typeof text === 'string' && text.length > MAX_EMBED_CHARS ? text.slice(0, MAX_EMBED_CHARS) : text;
-  const res = await client.embeddings.create({
-    model: OPENAI_EMBED_MODEL,
-    input: trimmed,
-  });
-  const embedding = res?.data?.[0]?.embedding as number[] | undefined;
-  if (!embedding) throw new Error("Failed to generate embedding");
+// --- Embeddings (Text Embedding 3 family) ---
+export async function embedText(scope: AiScope, text: string): Promise<number[]> {
+  const [embedding] = await embedTexts(scope, [text]);
   return embedding;
 }
 
-// --- Summarization (gpt-5-mini via Responses API) ---
-export async function summarizeText(text: string, hint?: string): Promise<string> {
-  if (process.env.SMOKE_TEST === "1") {
-    return (hint ? `[SMOKE] ${hint}\n` : "") + text.slice(0, 140);
+// Batch packing: inputs per request and an estimated token budget (~3 chars/token, conservative)
+// under the API's 2048-input / 300k-token request limits
+const EMBED_BATCH_MAX_INPUTS = Number(process.env.OPENAI_EMBED_BATCH_SIZE || 256);
+const EMBED_BATCH_MAX_TOKENS = Number(process.env.OPENAI_EMBED_BATCH_TOKENS || 200000);
+const EMBED_BATCH_RETRIES = 2;
+
+function packEmbedBatches(inputs: string[]): string[][] {
+  const batches: string[][] = [];
+  let cur: string[] = [];
+  let tokens = 0;
+  for (const t of inputs) {
+    const est = Math.ceil(t.length / 3) + 1;
+    if (cur.length && (cur.length >= EMBED_BATCH_MAX_INPUTS || tokens + est > EMBED_BATCH_MAX_TOKENS)) {
+      batches.push(cur);
+      cur = [];
+      tokens = 0;
+    }
+    cur.push(t);
+    tokens += est;
   }
-  if (!OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not configured");
-  const client = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const input = hint ? `${hint}\n\n${text}` : text;
-  const res = await client.responses.create({ model: OPENAI_TEXT_MODEL, input,  });
-  return res.output_text ?? "";
+  if (cur.length) batches.push(cur);
+  return batches;
+}
+
+// One request per batch with retry on throttling/transient errors; a batch that keeps failing is split
+// in half so one bad input can't sink the rest
+async function embedBatch(scope: AiScope, llm: LlmProvider, inputs: string[]): Promise<number[][]> {
+  let lastErr: unknown;
+  for (let attempt = 0; attempt <= EMBED_BATCH_RETRIES; attempt++) {
+    try {
+      const out = await llm.embed(inputs);
+      if (out.length !== inputs.length || out.some(v => !v?.length)) throw new Error("Failed to generate embedding");
+      // Cache per successful request so a failure elsewhere in the call doesn't waste this one
+      for (let i = 0; i < inputs.length; i++) await cacheStore(scope, "embed", contentHash(llm.embedModel, inputs[i]), out[i]);
+      return out;
+    } catch (e: any) {
+      lastErr = e;
+      const status = Number(e?.status || 0);
+      const transient = !status || status === 429 || status >= 500;
+      if (!transient) break;
+      if (attempt < EMBED_BATCH_RETRIES) await new Promise(r => setTimeout(r, 1000 * 2 ** attempt));
+    }
+  }
+  if (inputs.length > 1) {
+    const mid = Math.ceil(inputs.length / 2);
+    return [...(await embedBatch(scope, llm, inputs.slice(0, mid))), ...(await embedBatch(scope, llm, inputs.slice(mid)))];
+  }
+  throw lastErr;
+}
+
+/**
+ * Embed many texts with as few requests as possible. Output order matches input order; cached and
+ * duplicate inputs are only sent once.
+ */
+export async function embedTexts(scope: AiScope, texts: string[]): Promise<number[][]> {
+  if (!texts.length) return [];
+
+  const llm = getLlmProvider();
+  const MAX_EMBED_CHARS = Number(process.env.OPENAI_EMBED_MAX_CHARS || '12000');
+  const inputs = texts.map(t => String(t ?? ""));
+  // Redact before trimming so a value cut at the limit can't slip through half-detected
+  const { redactor } = scope;
+  if (redactor) for (let i = 0; i < inputs.length; i++) inputs[i] = await redactor.redact(inputs[i]);
+  const trimmed = inputs.map(t => (t.length > MAX_EMBED_CHARS ? t.slice(0, MAX_EMBED_CHARS) : t));
+
+  const results = new Map<string, number[]>();
+  const missing: string[] = [];
+  for (const t of new Set(trimmed)) {
+    const hit = await cacheLookup<number[]>(scope, "embed", contentHash(llm.embedModel, t));
+    if (hit) results.set(t, hit);
+    else missing.push(t);
+  }
+
+  if (missing.length) {
+    for (const batch of packEmbedBatches(missing)) {
+      const vectors = await embedBatch(scope, llm, batch);
+      for (let i = 0; i < batch.length; i++) results.set(batch[i], vectors[i]);
+    }
+  }
+  return trimmed.map(t => results.get(t)!);
+}
+
+// --- Summarization (gpt-5-mini via Responses API by default) ---
+// `hint` carries the instructions and `text` the content, so the local provider can summarize the content alone
+export async function summarizeText(scope: AiScope, text: string, hint?: string): Promise<string> {
+  const llm = getLlmProvider();
+  const { redactor } = scope;
+  const input = redactor ? await redactor.redact(text) : text;
+  const instructions = redactor && hint ? await redactor.redact(hint) : hint;
+  // Cached summaries stay redacted; originals only come back from the grant's vault
+  const out = await cached(scope, "summary", contentHash(llm.textModel, instructions, contentHash(input)), () => llm.summarize(input, instructions), v => v.trim().length > 0);
+  return redactor ? redactor.restore(out) : out;
 }
 
 // Map-Reduce summarization for large texts to fit within embedding limits
-export async function summarizeLongTextMapReduce(text: string, hint?: string): Promise<string> {
+export async function summarizeLongTextMapReduce(scope: AiScope, text: string, hint?: string): Promise<string> {
   const RAW_CHUNK_CHARS = Number(process.env.RAW_CHUNK_CHARS || '15000');
   const CHUNK_OVERLAP_CHARS = Number(process.env.CHUNK_OVERLAP_CHARS || '1500');
   const FINAL_SUMMARY_MAX_CHARS = Number(process.env.FINAL_SUMMARY_MAX_CHARS || '8000');
-  const makeMapPrompt = (t: string) => [
+  const mapInstructions = [
     'Summarize the following into tight bullets, one idea per line; include dates, actors, and actions when present.',
     'After bullets, include one short executive paragraph and up to 8 concise tags.',
     hint ? `Hint: ${hint}` : null,
-    '',
-    t,
   ].filter(Boolean).join('\n');
+  // Redact the whole text up front so chunk boundaries can't split a value past detection
+  if (scope.redactor) text = await scope.redactor.redact(text);
 
   if (text.length <= RAW_CHUNK_CHARS) {
-    const out = await summarizeText(makeMapPrompt(text));
+    const out = await summarizeText(scope, text, mapInstructions);
     return out.length > FINAL_SUMMARY_MAX_CHARS ? out.slice(0, FINAL_SUMMARY_MAX_CHARS) : out;
   }
 
@@ -73,14 +203,14 @@ export async function summarizeLongTextMapReduce(text: string, hint?: string): P
   for (let i = 0; i < text.length; ) {
     const j = Math.min(text.length, i + RAW_CHUNK_CHARS);
     const chunk = text.slice(i, j);
-    const sum = await summarizeText(makeMapPrompt(chunk), 'Chunk summary');
+    const sum = await summarizeText(scope, chunk, `${mapInstructions}\nChunk summary`);
     parts.push(sum);
     const next = j - CHUNK_OVERLAP_CHARS;
     i = next > i ? next : j;
   }
   // Reduce
   const reduceHint = 'Combine and deduplicate the chunk summaries into bullets + a short paragraph + tags.';
-  const final = await summarizeText(parts.join('\n\n'), reduceHint);
+  const final = await summarizeText(scope, parts.join('\n\n'), reduceHint);
   return final.length > FINAL_SUMMARY_MAX_CHARS ? final.slice(0, FINAL_SUMMARY_MAX_CHARS) : final;
 }
 
@@ -93,85 +223,85 @@ export type NoteForSummary = {
   excerpt: string;
 };
 
-export async function summarizeNotes(notes: NoteForSummary[], hint?: string): Promise<string> {
+export async function summarizeNotes(scope: AiScope, notes: NoteForSummary[], hint?: string): Promise<string> {
   const lines = notes.map(n => `- [${n.date_iso}] ${n.from ? n.from + " → " : ""}${(n.to ?? []).join(", ")} :: ${n.subject ?? ""} :: ${n.excerpt}`);
   const maxPerChunk = Number(process.env.SUMMARY_NOTES_PER_CHUNK || '50');
 
-  const makePrompt = (ls: string[]) => [
+  const instructions = [
     "Summarize these email snippets into:",
     "1) 3–7 bullet points (actionable).",
     "2) 1 short executive paragraph.",
     "3) Up to 8 searchable tags.",
     hint ? `Hint: ${hint}` : null,
-    "",
-    ls.join("\n"),
   ].filter(Boolean).join("\n");
 
   if (lines.length <= maxPerChunk) {
-    return summarizeText(makePrompt(lines));
+    return summarizeText(scope, lines.join("\n"), instructions);
   }
 
   // Chunk large note sets to stay within model context limits, then synthesize
   const partials: string[] = [];
   for (let i = 0; i < lines.length; i += maxPerChunk) {
     const chunk = lines.slice(i, i + maxPerChunk);
-    const part = await summarizeText(makePrompt(chunk), "Chunk summary");
+    const part = await summarizeText(scope, chunk.join("\n"), `${instructions}\nChunk summary`);
     partials.push(part);
   }
   const finalHint = "Combine and deduplicate the following chunk summaries into the same output format (bullets, paragraph, tags).";
-  return summarizeText(partials.join("\n\n"), finalHint);
+  return summarizeText(scope, partials.join("\n\n"), finalHint);
 }
 
-// --- Image analysis (use Chat Completions for multimodal until Responses types stabilize) ---
-export async function analyzeImageBuffer(buf: Buffer, mime: string, filename: string): Promise<string> {
-  if (process.env.SMOKE_TEST === "1") {
-    return `[SMOKE] image analysis for ${filename} (${mime}), ${buf.length} bytes`;
-  }
-  if (!OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not configured");
-  const client = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const b64 = buf.toString("base64");
-  const dataUrl = `data:${mime};base64,${b64}`;
-  const chat = await client.chat.completions.create({
-    model: OPENAI_TEXT_MODEL,
-    messages: [
-      {
-        role: "user",
-        content: [
-          { type: "text", text: `Summarize file "${filename}". Extract key topics, action items, and tags.` },
-          { type: "image_url", image_url: { url: dataUrl } },
-        ],
-      },
-    ],
-  });
-  return chat.choices?.[0]?.message?.content ?? "";
-}
-
-// --- PDF analysis (naive byte-to-ascii extraction + summarization) ---
-export async function analyzePdfBuffer(buf: Buffer, filename: string): Promise<string> {
-  if (process.env.SMOKE_TEST === "1") {
-    return `[SMOKE] pdf analysis for ${filename}, ${buf.length} bytes`;
-  }
-  // Fallback approach without external deps: extract visible ASCII and summarize with chunking to avoid context limits.
-  const ascii = buf
-    .toString("latin1")
-    .replace(/[^\x09\x0a\x0d\x20-\x7E]+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-  if (!ascii) return `No extractable text found in ${filename}.`;
-
-  const hint = `You are analyzing PDF "${filename}". Provide a concise summary, key topics, action items, and tags. The text was extracted heuristically.`;
+// --- Image analysis ---
+// Pixels can't be masked: callers honour the policy's `images: "skip"`; only the prompt and output go through the redactor
+export async function analyzeImageBuffer(scope: AiScope, buf: Buffer, mime: string, filename: string): Promise<string> {
+  const llm = getLlmProvider();
+  const { redactor } = scope;
+  const name = redactor ? await redactor.redact(filename) : filename;
+  const prompt = `Summarize file "${name}". Extract key topics, action items, and tags.`;
+  const out = await cached(scope, "vision", contentHash(llm.textModel, prompt, mime, attachmentHash(buf)), () => llm.vision(prompt, buf, mime), v => v.trim().length > 0);
+  return redactor ? redactor.restore(out) : out;
+}
+
+// --- PDF analysis (in-process text extraction + page-aware summarization) ---
+export async function analyzePdfBuffer(scope: AiScope, buf: Buffer, filename: string, extracted?: PdfText): Promise<string> {
+  const pdf = extracted ?? extractPdfText(buf);
+  if (pdf.encrypted) return `PDF ${filename} is encrypted; text could not be extracted.`;
+  const pages = pdf.pages.map((text, i) => ({ n: i + 1, text })).filter(p => p.text);
+  if (!pages.length) return `No extractable text found in ${filename}.`;
+  // Whole pages are redacted before oversized ones are split into chunks
+  if (scope.redactor) for (const p of pages) p.text = await scope.redactor.redact(p.text);
+
+  const meta = [
+    pdf.info.title ? `title "${pdf.info.title}"` : "",
+    pdf.info.author ? `author ${pdf.info.author}` : "",
+    `${pdf.pages.length} page(s)`,
+    pdf.truncated ? `text cut off after page ${pdf.pages.length}` : "",
+  ].filter(Boolean).join(", ");
+  const hint = `You are analyzing PDF "${filename}" (${meta}). Provide a concise summary, key topics, action items, and tags. Cite page numbers from the [Page N] markers where useful.`;
   const maxChunkChars = Number(process.env.PDF_SUMMARY_CHARS || '16000');
 
-  if (ascii.length <= maxChunkChars) {
-    return summarizeText(ascii, hint);
+  // Group whole pages into chunks so page markers stay intact (oversized pages are split)
+  const chunks: { from: number; to: number; text: string }[] = [];
+  for (const p of pages) {
+    const marked = `[Page ${p.n}]\n${p.text}`;
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + marked.length + 2 <= maxChunkChars) {
+      last.text += `\n\n${marked}`;
+      last.to = p.n;
+    } else {
+      for (let i = 0; i < marked.length; i += maxChunkChars) chunks.push({ from: p.n, to: p.n, text: marked.slice(i, i + maxChunkChars) });
+    }
+  }
+
+  if (chunks.length === 1) {
+    return summarizeText(scope, chunks[0].text, hint);
   }
 
   // Chunk large PDFs and synthesize a final summary
   const partials: string[] = [];
-  for (let i = 0; i < ascii.length; i += maxChunkChars) {
-    const chunk = ascii.slice(i, i + maxChunkChars);
-    const part = await summarizeText(chunk, `Chunk summary for ${filename}`);
-    partials.push(part);
+  for (const c of chunks) {
+    const range = c.from === c.to ? `page ${c.from}` : `pages ${c.from}-${c.to}`;
+    const part = await summarizeText(scope, c.text, `Chunk summary for ${filename}, ${range}. Keep page references.`);
+    partials.push(`(${range})\n${part}`);
   }
-  return summarizeText(partials.join("\n\n"), `Synthesize final summary for ${filename}. Merge, deduplicate, and format as bullets, paragraph, and tags.`);
+  return summarizeText(scope, partials.join("\n\n"), `Synthesize final summary for ${filename} (${meta}). Merge, deduplicate, keep page references, and format as bullets, paragraph, and tags.`);
 }
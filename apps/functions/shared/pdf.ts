@@ -0,0 +1,659 @@
+import zlib from "node:zlib";
+
+// Minimal, dependency-free PDF text extraction: object/xref-stream parsing, Flate/ASCIIHex/ASCII85
+// stream decoding, page-tree order, ToUnicode CMaps and Form XObjects. Not a renderer: text order
+// follows the content stream, with line breaks inferred from text positioning operators.
+
+export type PdfInfo = {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+};
+
+export type PdfText = {
+  pages: string[]; // text per page, in page-tree order
+  info: PdfInfo;
+  encrypted: boolean;
+  truncated: boolean; // a document limit was hit; the last page ends with TRUNCATION_MARKER and later pages are missing
+};
+
+export type PdfLimits = {
+  maxInflatedBytes: number; // across every stream in the document
+  maxTextChars: number;
+};
+
+// Per-document caps on top of the per-stream one: many streams just under MAX_STREAM_BYTES would otherwise add up
+// to gigabytes, and the page text feeds one summarization call per PDF_SUMMARY_CHARS
+const DEFAULT_LIMITS: PdfLimits = { maxInflatedBytes: 256 * 1024 * 1024, maxTextChars: 500_000 };
+
+export const TRUNCATION_MARKER = "[Text truncated: the document exceeds the extraction limits]";
+
+// --- Object model ---
+type PdfRef = { $ref: number };
+type PdfStr = { $str: string }; // raw bytes as a latin1 string
+type PdfDict = { [key: string]: PdfValue };
+type PdfValue = number | boolean | null | string /* name, "/Foo" */ | PdfRef | PdfStr | PdfValue[] | PdfDict;
+type PdfObject = { value: PdfValue; stream?: Buffer };
+
+const WS = " \t\r\n\f\0";
+const DELIMS = "()<>[]{}/%";
+
+function isRef(v: unknown): v is PdfRef { return !!v && typeof v === "object" && "$ref" in (v as object); }
+function isStr(v: unknown): v is PdfStr { return !!v && typeof v === "object" && "$str" in (v as object); }
+function isDict(v: unknown): v is PdfDict { return !!v && typeof v === "object" && !Array.isArray(v) && !isRef(v) && !isStr(v); }
+// Refs and strings are structurally dict-like, so type-guard narrowing can't exclude them; cast once here
+function asDict(v: PdfValue | undefined): PdfDict | undefined { return isDict(v) ? (v as PdfDict) : undefined; }
+
+class Lexer {
+  constructor(public src: string, public pos = 0) {}
+
+  skipWs() {
+    const s = this.src;
+    while (this.pos < s.length) {
+      const c = s[this.pos];
+      if (WS.includes(c)) this.pos++;
+      else if (c === "%") { while (this.pos < s.length && s[this.pos] !== "\n" && s[this.pos] !== "\r") this.pos++; }
+      else break;
+    }
+  }
+
+  // Returns the next token: literal/hex strings as PdfStr, names as "/Name", numbers, or delimiter/keyword strings
+  next(): PdfValue | undefined {
+    this.skipWs();
+    const s = this.src;
+    if (this.pos >= s.length) return undefined;
+    const c = s[this.pos];
+    if (c === "(") return { $str: this.literal() };
+    if (c === "<") {
+      if (s[this.pos + 1] === "<") { this.pos += 2; return "<<"; }
+      const end = s.indexOf(">", this.pos);
+      const hex = s.slice(this.pos + 1, end < 0 ? s.length : end).replace(/[^0-9a-f]/gi, "");
+      this.pos = end < 0 ? s.length : end + 1;
+      let out = "";
+      for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt((hex.slice(i, i + 2) + "0").slice(0, 2), 16));
+      return { $str: out };
+    }
+    if (c === ">" && s[this.pos + 1] === ">") { this.pos += 2; return ">>"; }
+    if (c === "[" || c === "]" || c === "{" || c === "}") { this.pos++; return c; }
+    if (c === "/") {
+      let j = this.pos + 1;
+      while (j < s.length && !WS.includes(s[j]) && !DELIMS.includes(s[j])) j++;
+      const name = s.slice(this.pos + 1, j).replace(/#([0-9a-f]{2})/gi, (_m, h) => String.fromCharCode(parseInt(h, 16)));
+      this.pos = j;
+      return "/" + name;
+    }
+    let j = this.pos;
+    while (j < s.length && !WS.includes(s[j]) && !DELIMS.includes(s[j])) j++;
+    if (j === this.pos) { this.pos++; return c; } // stray delimiter
+    const word = s.slice(this.pos, j);
+    this.pos = j;
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return word; // keyword/operator (never starts with "/")
+  }
+
+  private literal(): string {
+    const s = this.src;
+    let depth = 0;
+    let out = "";
+    let i = this.pos + 1;
+    for (; i < s.length; i++) {
+      const c = s[i];
+      if (c === "\\") {
+        const n = s[++i];
+        if (n === "n") out += "\n";
+        else if (n === "r") out += "\r";
+        else if (n === "t") out += "\t";
+        else if (n === "b") out += "\b";
+        else if (n === "f") out += "\f";
+        else if (n === "\r") { if (s[i + 1] === "\n") i++; }
+        else if (n === "\n") { /* line continuation */ }
+        else if (n >= "0" && n <= "7") {
+          let oct = n;
+          while (oct.length < 3 && s[i + 1] >= "0" && s[i + 1] <= "7") oct += s[++i];
+          out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+        } else if (n !== undefined) out += n;
+      } else if (c === "(") { depth++; out += c; }
+      else if (c === ")") { if (depth === 0) break; depth--; out += c; }
+      else out += c;
+    }
+    this.pos = i + 1;
+    return out;
+  }
+}
+
+// Parse one value; handles "n g R" references and nested arrays/dicts
+function parseValue(lx: Lexer, first?: PdfValue): PdfValue {
+  const tok = first === undefined ? lx.next() : first;
+  if (tok === "<<") {
+    const dict: PdfDict = {};
+    for (;;) {
+      const k = lx.next();
+      if (k === ">>" || k === undefined) break;
+      if (typeof k !== "string" || !k.startsWith("/")) continue;
+      dict[k.slice(1)] = parseValue(lx);
+    }
+    return dict;
+  }
+  if (tok === "[") {
+    const arr: PdfValue[] = [];
+    for (;;) {
+      const t = lx.next();
+      if (t === "]" || t === undefined) break;
+      arr.push(parseValue(lx, t));
+    }
+    return arr;
+  }
+  if (typeof tok === "number" && Number.isInteger(tok)) {
+    // Look ahead for "gen R"
+    const save = lx.pos;
+    const gen = lx.next();
+    if (typeof gen === "number" && Number.isInteger(gen)) {
+      const r = lx.next();
+      if (r === "R") return { $ref: tok };
+    }
+    lx.pos = save;
+  }
+  return tok === undefined ? null : tok;
+}
+
+// --- Stream filters ---
+function ascii85(data: string): Buffer {
+  const s = data.replace(/\s+/g, "").replace(/^<~/, "").replace(/~>.*$/, "");
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const ch of s) {
+    if (ch === "z" && group.length === 0) { out.push(0, 0, 0, 0); continue; }
+    const v = ch.charCodeAt(0) - 33;
+    if (v < 0 || v > 84) continue;
+    group.push(v);
+    if (group.length === 5) {
+      let n = 0;
+      for (const g of group) n = n * 85 + g;
+      out.push((n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff);
+      group = [];
+    }
+  }
+  if (group.length) {
+    const len = group.length;
+    while (group.length < 5) group.push(84);
+    let n = 0;
+    for (const g of group) n = n * 85 + g;
+    const bytes = [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+    out.push(...bytes.slice(0, len - 1));
+  }
+  return Buffer.from(out);
+}
+
+// Inflated size cap per stream (as for zip entries): a 10 MB attachment should never need more, and it stops
+// decompression bombs
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+
+function overCap(e: unknown): boolean {
+  return (e as { code?: string })?.code === "ERR_BUFFER_TOO_LARGE";
+}
+
+// null when the stream inflates past maxBytes; callers skip it
+function inflate(buf: Buffer, maxBytes: number): Buffer | null {
+  const limit = { maxOutputLength: maxBytes };
+  try {
+    return zlib.inflateSync(buf, limit);
+  } catch (e) {
+    if (overCap(e)) return null;
+    // Truncated/garbage-tailed streams are common; salvage what decodes
+    try { return zlib.inflateSync(buf, { ...limit, finishFlush: zlib.constants.Z_SYNC_FLUSH }); } catch (e2) { if (overCap(e2)) return null; }
+    try { return zlib.inflateRawSync(buf, { ...limit, finishFlush: zlib.constants.Z_SYNC_FLUSH }); } catch (e3) { if (overCap(e3)) return null; }
+    return Buffer.alloc(0);
+  }
+}
+
+// Undo PNG row predictors (used by xref/object streams with /DecodeParms << /Predictor 12 >>)
+function unpredict(buf: Buffer, parms: PdfDict | undefined): Buffer {
+  const predictor = Number(parms?.Predictor ?? 1);
+  if (predictor < 10) return buf;
+  const columns = Number(parms?.Columns ?? 1);
+  const rowLen = columns + 1;
+  const out = Buffer.alloc(Math.floor(buf.length / rowLen) * columns);
+  const prev = Buffer.alloc(columns);
+  for (let r = 0; r * rowLen < buf.length && (r + 1) * columns <= out.length; r++) {
+    const type = buf[r * rowLen];
+    for (let c = 0; c < columns; c++) {
+      const raw = buf[r * rowLen + 1 + c] ?? 0;
+      const left = c > 0 ? out[r * columns + c - 1] : 0;
+      const up = prev[c];
+      const ul = c > 0 ? prev[c - 1] : 0;
+      let v = raw;
+      if (type === 1) v = raw + left;
+      else if (type === 2) v = raw + up;
+      else if (type === 3) v = raw + ((left + up) >> 1);
+      else if (type === 4) {
+        const p = left + up - ul;
+        const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - ul);
+        v = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : ul);
+      }
+      out[r * columns + c] = v & 0xff;
+    }
+    out.copy(prev, 0, r * columns, r * columns + columns);
+  }
+  return out;
+}
+
+// --- Document ---
+class PdfDocument {
+  objects = new Map<number, PdfObject>();
+  trailer: PdfDict = {};
+  // Set once inflateBudget runs out; every Flate stream after that is skipped
+  truncated = false;
+
+  constructor(public src: string, private inflateBudget: number) {
+    this.scanObjects();
+    this.expandObjectStreams();
+    this.findTrailer();
+  }
+
+  private scanObjects() {
+    const src = this.src;
+    const re = /(\d+)\s+(\d+)\s+obj\b/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(src))) {
+      const num = Number(m[1]);
+      const lx = new Lexer(src, re.lastIndex);
+      let value: PdfValue;
+      try { value = parseValue(lx); } catch { continue; }
+      const obj: PdfObject = { value };
+      const after = lx.pos;
+      lx.skipWs();
+      if (src.startsWith("stream", lx.pos)) {
+        let start = lx.pos + 6;
+        if (src[start] === "\r") start++;
+        if (src[start] === "\n") start++;
+        const length = asDict(value)?.Length;
+        const len = typeof length === "number" ? length : -1;
+        let end = len >= 0 && src.startsWith("endstream", this.skipEol(start + len)) ? start + len : src.indexOf("endstream", start);
+        if (end < 0) end = src.length;
+        if (len < 0) {
+          // Trim the EOL that precedes "endstream"
+          if (src[end - 1] === "\n") end--;
+          if (src[end - 1] === "\r") end--;
+        }
+        obj.stream = Buffer.from(src.slice(start, end), "latin1");
+        re.lastIndex = end;
+      } else {
+        re.lastIndex = after;
+      }
+      this.objects.set(num, obj);
+    }
+  }
+
+  private skipEol(i: number): number {
+    while (i < this.src.length && "\r\n ".includes(this.src[i])) i++;
+    return i;
+  }
+
+  private expandObjectStreams() {
+    for (const [, obj] of Array.from(this.objects)) {
+      const d = asDict(obj.value);
+      if (!d || d.Type !== "/ObjStm" || !obj.stream) continue;
+      const data = this.decodeStream(obj);
+      if (!data) continue;
+      const text = data.toString("latin1");
+      const n = Number(d.N ?? 0);
+      const first = Number(d.First ?? 0);
+      const header = new Lexer(text.slice(0, first));
+      for (let i = 0; i < n; i++) {
+        const num = header.next();
+        const off = header.next();
+        if (typeof num !== "number" || typeof off !== "number") break;
+        if (this.objects.has(num)) continue;
+        try {
+          this.objects.set(num, { value: parseValue(new Lexer(text, first + off)) });
+        } catch {}
+      }
+    }
+  }
+
+  private findTrailer() {
+    const idx = this.src.lastIndexOf("trailer");
+    if (idx >= 0) {
+      const v = parseValue(new Lexer(this.src, idx + 7));
+      const d = asDict(v);
+      if (d) this.trailer = d;
+    }
+    // PDF 1.5+ cross-reference streams carry the trailer keys in their dictionary
+    if (!this.trailer.Root) {
+      for (const obj of this.objects.values()) {
+        const d = asDict(obj.value);
+        if (d?.Type === "/XRef") this.trailer = { ...d, ...this.trailer };
+      }
+    }
+  }
+
+  resolve(v: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(v) && depth < 16) return this.resolve(this.objects.get(v.$ref)?.value, depth + 1);
+    return v;
+  }
+
+  dict(v: PdfValue | undefined): PdfDict | undefined {
+    const r = this.resolve(v);
+    return asDict(r);
+  }
+
+  decodeStream(obj: PdfObject | undefined): Buffer | null {
+    const d = asDict(obj?.value);
+    if (!obj?.stream || !d) return null;
+    const filters = (Array.isArray(d.Filter) ? d.Filter : d.Filter ? [d.Filter] : []).map(f => this.resolve(f));
+    const parmsAll = this.resolve(d.DecodeParms);
+    let buf = obj.stream;
+    for (let i = 0; i < filters.length; i++) {
+      const f = filters[i];
+      const parms = Array.isArray(parmsAll) ? this.dict(parmsAll[i]) : this.dict(parmsAll);
+      if (f === "/FlateDecode" || f === "/Fl") {
+        const limit = Math.min(MAX_STREAM_BYTES, this.inflateBudget);
+        const inflated = limit > 0 ? inflate(buf, limit) : null;
+        // A stream that overflows has already cost its whole limit
+        this.inflateBudget -= inflated?.length ?? limit;
+        if (!inflated) {
+          if (limit < MAX_STREAM_BYTES) this.truncated = true;
+          return null;
+        }
+        buf = unpredict(inflated, parms);
+      }
+      else if (f === "/ASCIIHexDecode" || f === "/AHx") {
+        const hex = buf.toString("latin1").replace(/>.*$/s, "").replace(/[^0-9a-f]/gi, "");
+        buf = Buffer.from(hex.length % 2 ? hex + "0" : hex, "hex");
+      } else if (f === "/ASCII85Decode" || f === "/A85") buf = ascii85(buf.toString("latin1"));
+      else return null; // image codecs (DCT, JBIG2, …) carry no text
+    }
+    return buf;
+  }
+
+  streamOf(v: PdfValue | undefined): Buffer | null {
+    return isRef(v) ? this.decodeStream(this.objects.get(v.$ref)) : null;
+  }
+
+  // Page dictionaries in page-tree order, each with its (possibly inherited) resources
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const out: { page: PdfDict; resources?: PdfDict }[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined, depth: number) => {
+      if (!node || seen.has(node) || depth > 64) return;
+      seen.add(node);
+      const resources = this.dict(node.Resources) ?? inherited;
+      if (node.Type === "/Pages" || Array.isArray(this.resolve(node.Kids))) {
+        const kids = this.resolve(node.Kids);
+        if (Array.isArray(kids)) for (const k of kids) walk(this.dict(k), resources, depth + 1);
+      } else {
+        out.push({ page: node, resources });
+      }
+    };
+    const root = this.dict(this.trailer.Root);
+    walk(this.dict(root?.Pages), undefined, 0);
+    if (out.length) return out;
+    // No usable catalog: fall back to every /Page object by object number
+    return Array.from(this.objects.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([, o]) => asDict(o.value))
+      .filter((v): v is PdfDict => v?.Type === "/Page")
+      .map(page => ({ page, resources: this.dict(page.Resources) }));
+  }
+}
+
+// --- Text decoding ---
+// How a font's shown bytes map to Unicode: a ToUnicode CMap, UTF-16 (predefined UCS2/UTF16 CMaps), or
+// an empty map for CID fonts we can't map (better to drop them than emit mojibake)
+type CMap = { codeBytes: number; map: Map<number, string>; utf16?: boolean };
+
+function utf16be(bytes: string): string {
+  let out = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return out;
+}
+
+function parseToUnicode(data: Buffer): CMap {
+  const text = data.toString("latin1");
+  const map = new Map<number, string>();
+  const hexToStr = (h: string) => utf16be(Buffer.from(h.length % 2 ? h + "0" : h, "hex").toString("latin1"));
+  let codeBytes = 1;
+  const cs = /begincodespacerange\s*<([0-9a-f]+)>/i.exec(text);
+  if (cs) codeBytes = Math.max(1, Math.ceil(cs[1].length / 2));
+
+  for (const block of text.match(/beginbfchar[\s\S]*?endbfchar/gi) || []) {
+    const re = /<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(block))) map.set(parseInt(m[1], 16), hexToStr(m[2]));
+  }
+  for (const block of text.match(/beginbfrange[\s\S]*?endbfrange/gi) || []) {
+    const re = /<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<([0-9a-f]*)>|\[([^\]]*)\])/gi;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(block))) {
+      const lo = parseInt(m[1], 16);
+      const hi = parseInt(m[2], 16);
+      if (hi - lo > 0xffff) continue;
+      if (m[4] !== undefined) {
+        const base = Buffer.from(m[4].length % 2 ? m[4] + "0" : m[4], "hex");
+        for (let c = lo; c <= hi; c++) {
+          const b = Buffer.from(base);
+          // Increment the last byte pair by the offset into the range
+          if (b.length >= 2) b.writeUInt16BE((b.readUInt16BE(b.length - 2) + (c - lo)) & 0xffff, b.length - 2);
+          map.set(c, utf16be(b.toString("latin1")));
+        }
+      } else {
+        const items = (m[5] || "").match(/<([0-9a-f]*)>/gi) || [];
+        items.forEach((it, i) => map.set(lo + i, hexToStr(it.slice(1, -1))));
+      }
+    }
+  }
+  return { codeBytes, map };
+}
+
+// Windows-1252 bytes 0x80–0x9F (common WinAnsiEncoding punctuation)
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€", 0x82: "‚", 0x83: "ƒ", 0x84: "„", 0x85: "…", 0x86: "†", 0x87: "‡", 0x88: "ˆ", 0x89: "‰",
+  0x8a: "Š", 0x8b: "‹", 0x8c: "Œ", 0x8e: "Ž", 0x91: "‘", 0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•",
+  0x96: "–", 0x97: "—", 0x98: "˜", 0x99: "™", 0x9a: "š", 0x9b: "›", 0x9c: "œ", 0x9e: "ž", 0x9f: "Ÿ",
+};
+
+function decodeShown(bytes: string, cmap: CMap | undefined): string {
+  if (cmap?.utf16) return utf16be(bytes);
+  if (cmap) {
+    let out = "";
+    for (let i = 0; i < bytes.length; i += cmap.codeBytes) {
+      let code = 0;
+      for (let k = 0; k < cmap.codeBytes; k++) code = (code << 8) | (bytes.charCodeAt(i + k) || 0);
+      out += cmap.map.get(code) ?? "";
+    }
+    return out;
+  }
+  let out = "";
+  for (let i = 0; i < bytes.length; i++) {
+    const c = bytes.charCodeAt(i);
+    out += WIN_ANSI[c] ?? (c >= 0x20 || c === 0x09 ? String.fromCharCode(c) : "");
+  }
+  return out;
+}
+
+// PDF "text strings" (document info): UTF-16BE with BOM, else PDFDocEncoding (~latin1)
+function pdfTextString(v: PdfValue | undefined): string | undefined {
+  if (!isStr(v)) return undefined;
+  const s = v.$str;
+  const text = s.startsWith("\xfe\xff") ? utf16be(s.slice(2)) : decodeShown(s, undefined);
+  return text.replace(/\0/g, "").trim() || undefined;
+}
+
+class TextExtractor {
+  private cmapCache = new Map<number, CMap | undefined>();
+
+  constructor(private doc: PdfDocument) {}
+
+  private fontCMap(resources: PdfDict | undefined, fontName: string): CMap | undefined {
+    const fonts = this.doc.dict(resources?.Font);
+    const ref = fonts?.[fontName];
+    const key = isRef(ref) ? ref.$ref : -1;
+    if (key >= 0 && this.cmapCache.has(key)) return this.cmapCache.get(key);
+    const font = this.doc.dict(ref);
+    const data = font ? this.doc.streamOf(font.ToUnicode) : null;
+    let cmap: CMap | undefined = data ? parseToUnicode(data) : undefined;
+    if (!cmap?.map.size && font?.Subtype === "/Type0") {
+      const enc = this.doc.resolve(font.Encoding);
+      const utf16 = typeof enc === "string" && /-(UCS2|UTF16)-/.test(enc);
+      cmap = { codeBytes: 2, map: new Map(), utf16 };
+    }
+    if (key >= 0) this.cmapCache.set(key, cmap);
+    return cmap;
+  }
+
+  run(content: Buffer, resources: PdfDict | undefined, depth = 0): string {
+    const lx = new Lexer(content.toString("latin1"));
+    const operands: PdfValue[] = [];
+    let out = "";
+    let cmap: CMap | undefined;
+    let lineY: number | null = null;
+    const newline = () => { if (out && !out.endsWith("\n")) out += "\n"; };
+    // Only the last character is checked: a regex over the growing page text would rescan it on every call
+    const space = () => { if (out && !/\s/.test(out[out.length - 1])) out += " "; };
+    const show = (v: PdfValue) => { if (isStr(v)) out += decodeShown(v.$str, cmap); };
+
+    for (;;) {
+      const tok = lx.next();
+      if (tok === undefined) break;
+      if (tok === "[" || tok === "<<") { operands.push(parseValue(lx, tok)); continue; }
+      if (typeof tok !== "string" || tok.startsWith("/") || isStr(tok)) { operands.push(tok); continue; }
+
+      switch (tok) {
+        case "Tf": {
+          const name = operands[operands.length - 2];
+          if (typeof name === "string") cmap = this.fontCMap(resources, name.slice(1));
+          break;
+        }
+        case "Tj": show(operands[operands.length - 1]); break;
+        case "'": newline(); show(operands[operands.length - 1]); break;
+        case "\"": newline(); show(operands[operands.length - 1]); break;
+        case "TJ": {
+          const arr = operands[operands.length - 1];
+          if (Array.isArray(arr)) {
+            for (const el of arr) {
+              if (typeof el === "number") { if (el < -200) space(); }
+              else show(el);
+            }
+          }
+          break;
+        }
+        case "Td":
+        case "TD": {
+          const ty = Number(operands[operands.length - 1]) || 0;
+          if (Math.abs(ty) > 0.5) { newline(); if (lineY !== null) lineY += ty; } else space();
+          break;
+        }
+        case "T*": newline(); break;
+        case "Tm": {
+          const y = Number(operands[operands.length - 1]) || 0;
+          if (lineY === null || Math.abs(y - lineY) > 0.5) newline(); else space();
+          lineY = y;
+          break;
+        }
+        case "ET": space(); break;
+        case "Do": {
+          // Form XObjects can hold text (headers, stamped pages); recurse with their own resources
+          const name = operands[operands.length - 1];
+          if (typeof name === "string" && depth < 3) {
+            const xobjects = this.doc.dict(resources?.XObject);
+            const ref = xobjects?.[name.slice(1)];
+            const obj = isRef(ref) ? this.doc.objects.get(ref.$ref) : undefined;
+            const form = asDict(obj?.value);
+            if (obj && form?.Subtype === "/Form") {
+              const data = this.doc.decodeStream(obj);
+              if (data) {
+                newline();
+                out += this.run(data, this.doc.dict(form.Resources) ?? resources, depth + 1);
+                newline();
+              }
+            }
+          }
+          break;
+        }
+        case "ID": {
+          // Inline image data: skip raw bytes up to "EI"
+          const m = /\sEI(\s|$)/g;
+          m.lastIndex = lx.pos;
+          const hit = m.exec(lx.src);
+          lx.pos = hit ? hit.index + hit[0].length : lx.src.length;
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+    return out;
+  }
+}
+
+function tidy(s: string): string {
+  return s
+    .split("\n")
+    .map(l => l.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract per-page text and document info from a PDF buffer. Never throws; returns empty pages on failure.
+ * Stops at the first page that crosses `limits`, marking it with TRUNCATION_MARKER.
+ */
+export function extractPdfText(buf: Buffer, limits: PdfLimits = DEFAULT_LIMITS): PdfText {
+  const empty: PdfText = { pages: [], info: {}, encrypted: false, truncated: false };
+  let doc: PdfDocument;
+  try {
+    doc = new PdfDocument(buf.toString("latin1"), limits.maxInflatedBytes);
+  } catch {
+    return empty;
+  }
+
+  const infoDict = doc.dict(doc.trailer.Info);
+  const info: PdfInfo = {
+    title: pdfTextString(infoDict?.Title),
+    author: pdfTextString(infoDict?.Author),
+    subject: pdfTextString(infoDict?.Subject),
+    keywords: pdfTextString(infoDict?.Keywords),
+    creator: pdfTextString(infoDict?.Creator),
+    producer: pdfTextString(infoDict?.Producer),
+    creationDate: pdfTextString(infoDict?.CreationDate),
+  };
+  for (const k of Object.keys(info) as (keyof PdfInfo)[]) if (info[k] === undefined) delete info[k];
+
+  // Encrypted content streams decode to noise; report instead of guessing
+  if (doc.trailer.Encrypt) return { pages: [], info, encrypted: true, truncated: false };
+
+  const extractor = new TextExtractor(doc);
+  const pages: string[] = [];
+  let chars = 0;
+  let truncated = doc.truncated;
+  for (const { page, resources } of doc.pages()) {
+    if (truncated) break;
+    const contents = doc.resolve(page.Contents);
+    const parts = Array.isArray(contents) ? contents : [page.Contents];
+    let text = "";
+    for (const p of parts) {
+      if (chars + text.length > limits.maxTextChars) break;
+      const data = doc.streamOf(p as PdfValue);
+      if (doc.truncated) break;
+      if (!data) continue;
+      try {
+        text += extractor.run(data, resources) + "\n";
+      } catch {}
+    }
+    let pageText = tidy(text);
+    truncated = doc.truncated || chars + pageText.length > limits.maxTextChars;
+    if (truncated) pageText = tidy(`${pageText.slice(0, Math.max(0, limits.maxTextChars - chars))}\n${TRUNCATION_MARKER}`);
+    chars += pageText.length;
+    pages.push(pageText);
+  }
+  // Ran out while reading the document structure, before any page
+  if (truncated && !pages.length) pages.push(TRUNCATION_MARKER);
+  return { pages, info, encrypted: false, truncated };
+}
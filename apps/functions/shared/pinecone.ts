@@ -1,25 +1,185 @@
-import { Pinecone, type PineconeRecord, type RecordMetadata } from "@pinecone-database/pinecone";
+import { Pinecone } from "@pinecone-database/pinecone";
+import type { QueryOptions, UpsertReport, VectorMatch, VectorMetadata, VectorRecord } from "./vectorStore";
 
+// Pinecone adapter for the VectorStore interface (see vectorStore.ts); SMOKE_TEST / PINECONE_DISABLE make it a no-op
 const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
 const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME;
+// Optional; when set the SDK skips looking the host up by index name
+const PINECONE_INDEX_HOST = process.env.PINECONE_INDEX_HOST || undefined;
 
-export type VectorRecord = PineconeRecord<RecordMetadata>;
+function pineconeDisabled(): boolean {
+  return process.env.SMOKE_TEST === "1" || process.env.PINECONE_DISABLE === "1";
+}
+
+function pineconeIndex() {
+  if (!PINECONE_API_KEY) throw new Error("PINECONE_API_KEY is not configured");
+  if (!PINECONE_INDEX_NAME) throw new Error("PINECONE_INDEX_NAME is not configured");
+  const pc = new Pinecone({ apiKey: PINECONE_API_KEY });
+  return pc.index(PINECONE_INDEX_NAME, PINECONE_INDEX_HOST);
+}
+
+// Upsert batching: Pinecone caps requests at 2 MB / 1000 records; stay well under both
+const UPSERT_BATCH_SIZE = Number(process.env.PINECONE_UPSERT_BATCH || 100);
+const UPSERT_MAX_BYTES = Number(process.env.PINECONE_UPSERT_MAX_BYTES || 1_800_000);
+const UPSERT_RETRIES = Number(process.env.PINECONE_UPSERT_RETRIES || 3);
+
+function packUpsertBatches(vectors: VectorRecord[]): VectorRecord[][] {
+  const batches: VectorRecord[][] = [];
+  let cur: VectorRecord[] = [];
+  let bytes = 0;
+  for (const v of vectors) {
+    const size = JSON.stringify(v).length;
+    if (cur.length && (cur.length >= UPSERT_BATCH_SIZE || bytes + size > UPSERT_MAX_BYTES)) {
+      batches.push(cur);
+      cur = [];
+      bytes = 0;
+    }
+    cur.push(v);
+    bytes += size;
+  }
+  if (cur.length) batches.push(cur);
+  return batches;
+}
 
-export async function upsertVectors(namespace: string, vectors: VectorRecord[]): Promise<void> {
-  if (!vectors.length) return;
+// Throttling, 5xx and connection failures are worth retrying; auth/not-found are not
+function isTransientPineconeError(e: any): boolean {
+  const name = String(e?.name || "");
+  if (/BadRequest|Authorization|NotFound|Conflict|NotImplemented|Config|Argument/.test(name)) return false;
+  return true;
+}
+
+/**
+ * Upsert in size-bounded batches with bounded retry/backoff. Never throws for Pinecone errors:
+ * ids that could not be written come back in `failed` so callers can retry just those.
+ */
+export async function upsertVectors(namespace: string, vectors: VectorRecord[]): Promise<UpsertReport> {
+  const report: UpsertReport = { attempted: vectors.length, succeeded: [], failed: [], batches: 0, retries: 0 };
+  if (!vectors.length) return report;
 
-  if (process.env.SMOKE_TEST === "1" || process.env.PINECONE_DISABLE === "1") {
+  if (pineconeDisabled()) {
     console.log(`[Pinecone:NOOP] upsert ${vectors.length} vectors ns=${namespace}`);
+    report.succeeded = vectors.map(v => v.id);
+    report.batches = 1;
+    return report;
+  }
+
+  const ns = pineconeIndex().namespace(namespace);
+
+  const send = async (batch: VectorRecord[]): Promise<void> => {
+    let lastErr: any;
+    for (let attempt = 0; attempt <= UPSERT_RETRIES; attempt++) {
+      try {
+        await ns.upsert(batch);
+        report.batches += 1;
+        report.succeeded.push(...batch.map(v => v.id));
+        return;
+      } catch (e: any) {
+        lastErr = e;
+        if (!isTransientPineconeError(e) || attempt === UPSERT_RETRIES) break;
+        report.retries += 1;
+        await new Promise(r => setTimeout(r, 500 * 2 ** attempt));
+      }
+    }
+    // A rejected batch may hold one malformed record; split to save the rest
+    if (batch.length > 1 && /BadRequest/.test(String(lastErr?.name || ""))) {
+      const mid = Math.ceil(batch.length / 2);
+      await send(batch.slice(0, mid));
+      await send(batch.slice(mid));
+      return;
+    }
+    const error = String(lastErr?.message || lastErr);
+    report.failed.push(...batch.map(v => ({ id: v.id, error })));
+  };
+
+  for (const batch of packUpsertBatches(vectors)) {
+    await send(batch);
+  }
+  return report;
+}
+
+export async function deleteVectors(namespace: string, ids: string[]): Promise<void> {
+  if (!ids.length) return;
+
+  if (pineconeDisabled()) {
+    console.log(`[Pinecone:NOOP] delete ${ids.length} vectors ns=${namespace}`);
     return;
   }
 
-  if (!PINECONE_API_KEY) throw new Error("PINECONE_API_KEY is not configured");
-  if (!PINECONE_INDEX_NAME) throw new Error("PINECONE_INDEX_NAME is not configured");
+  await pineconeIndex().namespace(namespace).deleteMany(ids);
+}
 
-  const pc = new Pinecone({ apiKey: PINECONE_API_KEY });
-  const index = pc.index(PINECONE_INDEX_NAME);
-  const ns = index.namespace(namespace);
-  // Upsert in a single batch for MVP
-  await ns.upsert(vectors);
+export async function updateVectorMetadata(namespace: string, id: string, metadata: VectorMetadata): Promise<void> {
+  if (pineconeDisabled()) {
+    console.log(`[Pinecone:NOOP] update ${id} ns=${namespace}`);
+    return;
+  }
+  await pineconeIndex().namespace(namespace).update({ id, metadata });
+}
+
+/** Records in the namespace, from the index stats (which can lag recent writes by a few seconds). */
+export async function countVectors(namespace: string): Promise<number> {
+  if (pineconeDisabled()) return 0;
+  const stats = await pineconeIndex().describeIndexStats();
+  return Number(stats.namespaces?.[namespace]?.recordCount || 0);
 }
 
+export async function deleteNamespace(namespace: string): Promise<number> {
+  if (pineconeDisabled()) {
+    console.log(`[Pinecone:NOOP] deleteAll ns=${namespace}`);
+    return 0;
+  }
+  const count = await countVectors(namespace);
+  if (!count) return 0; // deleting a namespace that was never written is a NotFound error
+  await pineconeIndex().namespace(namespace).deleteAll();
+  return count;
+}
+
+// Pinecone rejects a topK above 1000 when metadata (or values) come back, and above 10000 otherwise
+const QUERY_TOPK_MAX = 10000;
+const QUERY_TOPK_MAX_WITH_METADATA = 1000;
+
+export async function queryVectors(namespace: string, opts: QueryOptions): Promise<VectorMatch[]> {
+  if (pineconeDisabled()) return [];
+  const includeMetadata = opts.includeMetadata ?? true;
+  const resp = await pineconeIndex().namespace(namespace).query({
+    vector: opts.vector,
+    topK: Math.min(opts.topK, includeMetadata ? QUERY_TOPK_MAX_WITH_METADATA : QUERY_TOPK_MAX),
+    includeMetadata,
+    filter: opts.filter && Object.keys(opts.filter).length ? opts.filter : undefined,
+  });
+  return (resp.matches ?? []).map(m => ({ id: m.id, score: m.score, metadata: m.metadata }));
+}
+
+// listPaginated pages hold at most 100 ids; fetch takes ids in the query string, so keep those batches as small
+const LIST_PAGE_SIZE = 100;
+const FETCH_BATCH_SIZE = 100;
+
+/**
+ * Ids starting with `prefix` (every id when unset), paging through listPaginated until `limit`.
+ * Listing by id prefix is only available on serverless indexes.
+ */
+export async function listVectorIds(namespace: string, prefix?: string, limit = Infinity): Promise<string[]> {
+  if (pineconeDisabled()) return [];
+  const ns = pineconeIndex().namespace(namespace);
+  const ids: string[] = [];
+  let paginationToken: string | undefined;
+  do {
+    const page = await ns.listPaginated({ prefix, limit: Math.min(LIST_PAGE_SIZE, limit - ids.length), paginationToken });
+    for (const v of page.vectors ?? []) if (v.id) ids.push(v.id);
+    paginationToken = page.pagination?.next;
+  } while (paginationToken && ids.length < limit);
+  return ids;
+}
+
+/** Metadata of the given records, fetched in batches; ids that no longer exist are left out. */
+export async function fetchVectorMetadata(namespace: string, ids: string[]): Promise<VectorMatch[]> {
+  if (pineconeDisabled() || !ids.length) return [];
+  const ns = pineconeIndex().namespace(namespace);
+  const out: VectorMatch[] = [];
+  for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+    const batch = ids.slice(i, i + FETCH_BATCH_SIZE);
+    const { records } = await ns.fetch(batch);
+    for (const id of batch) if (records[id]) out.push({ id, metadata: records[id].metadata });
+  }
+  return out;
+}
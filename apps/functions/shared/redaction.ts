@@ -0,0 +1,174 @@
+import crypto from "node:crypto";
+import { getGrant } from "./grantRegistry";
+import { addRedactionEntries, ensureRedactionVault, loadRedactionVault, type RedactionEntry } from "./storage";
+
+// PII redaction for everything sent to a model (summaries, embeddings, image prompts). Detected values are
+// replaced by placeholders like [CARD_3f9a1c0b7e] derived from the grant's vault salt, so a value always maps
+// to the same placeholder for a grant: AI cache keys stay stable and a redacted search query matches redacted
+// chunks. Originals stay local in the grant's redaction vault (see storage.ts); summaries are restored from it
+// before they are stored, while embedding input stays redacted.
+//
+// REDACTION_TYPES: comma list of card, ssn, phone, otp (default all; "none" turns text redaction off)
+// REDACTION_IMAGES: send | skip — images can't be masked, "skip" keeps them away from the vision model
+// Both can be overridden per grant through the registry (POST /api/grants with `redaction`).
+
+export const REDACTION_TYPES = ["card", "ssn", "phone", "otp"] as const;
+export type RedactionType = (typeof REDACTION_TYPES)[number];
+
+export type RedactionPolicy = {
+  types: RedactionType[];
+  images: "send" | "skip";
+};
+
+export interface Redactor {
+  readonly grantId: string;
+  readonly policy: RedactionPolicy;
+  /** Replace detected values with placeholders, recording new ones in the vault. */
+  redact(text: string): Promise<string>;
+  /** Put originals back for placeholders found in model output; unknown placeholders are left as-is. */
+  restore(text: string): Promise<string>;
+  /** Values replaced by this redactor so far, per type. */
+  readonly counts: Record<RedactionType, number>;
+}
+
+type Detector = { type: RedactionType; pattern: RegExp; accept?: (match: string) => boolean };
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+const OTP_CUE = "(?:code|otp|passcode|pin|verification|one[- ]time|2fa|security code)";
+
+// Applied in order; each pass sees the previous passes' placeholders, which none of the patterns match
+const DETECTORS: Detector[] = [
+  {
+    type: "card",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    accept: m => {
+      const digits = m.replace(/\D/g, "");
+      return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+    },
+  },
+  { type: "ssn", pattern: /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g },
+  // Separated NANP numbers, or "+" followed by 8–15 digits in groups; bare digit runs are left alone (order ids)
+  { type: "phone", pattern: /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  { type: "phone", pattern: /\+\d{1,3}(?:[\s.-]?\d){7,14}\b/g },
+  // 4–8 digits shortly after ("Your code is 123456") or before ("123456 is your code") a one-time-code cue
+  { type: "otp", pattern: new RegExp(`(?<=\\b${OTP_CUE}\\b[^\\d\\n]{0,30})\\b\\d{4,8}\\b`, "gi") },
+  { type: "otp", pattern: new RegExp(`\\b\\d{4,8}\\b(?=[^\\d\\n]{0,20}\\b(?:is your|${OTP_CUE})\\b)`, "gi") },
+];
+
+const PLACEHOLDER = /\[(CARD|SSN|PHONE|OTP)_([0-9a-f]{10})\]/g;
+
+function parseTypes(raw: string): RedactionType[] {
+  const v = raw.trim().toLowerCase();
+  if (v === "none") return [];
+  return v.split(",").map(t => t.trim()).filter((t): t is RedactionType => (REDACTION_TYPES as readonly string[]).includes(t));
+}
+
+export function redactionPolicyFromEnv(): RedactionPolicy {
+  return {
+    types: process.env.REDACTION_TYPES === undefined ? [...REDACTION_TYPES] : parseTypes(process.env.REDACTION_TYPES),
+    images: process.env.REDACTION_IMAGES === "skip" ? "skip" : "send",
+  };
+}
+
+/** Validate a per-grant override from the admin API. Throws with a message suitable for a 400. */
+export function parseRedactionPolicy(input: unknown): Partial<RedactionPolicy> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) throw new Error("redaction must be an object");
+  const { types, images } = input as { types?: unknown; images?: unknown };
+  const policy: Partial<RedactionPolicy> = {};
+  if (types !== undefined) {
+    if (!Array.isArray(types)) throw new Error("redaction.types must be an array");
+    const unknown = types.filter(t => !(REDACTION_TYPES as readonly unknown[]).includes(t));
+    if (unknown.length) throw new Error(`Unknown redaction type(s) ${unknown.join(", ")} (expected ${REDACTION_TYPES.join(", ")})`);
+    policy.types = Array.from(new Set(types as RedactionType[]));
+  }
+  if (images !== undefined) {
+    if (images !== "send" && images !== "skip") throw new Error('redaction.images must be "send" or "skip"');
+    policy.images = images;
+  }
+  return policy;
+}
+
+/** The grant's effective policy: its registry override on top of the env defaults. */
+export async function getRedactionPolicy(grantId: string): Promise<RedactionPolicy> {
+  const override = (await getGrant(grantId))?.redaction;
+  return { ...redactionPolicyFromEnv(), ...override };
+}
+
+/**
+ * Redactor for a grant's model calls, or null when its policy neither masks text nor skips images.
+ * Create one per job/request: it reads the vault once and keeps placeholders it adds in memory.
+ */
+export async function getRedactor(grantId: string): Promise<Redactor | null> {
+  const policy = await getRedactionPolicy(grantId);
+  if (!policy.types.length && policy.images === "send") return null;
+
+  const detectors = DETECTORS.filter(d => policy.types.includes(d.type));
+  let vault = detectors.length ? await loadRedactionVault(grantId) : null;
+  const known = new Map<string, RedactionEntry>(Object.entries(vault?.entries ?? {}));
+  const counts = Object.fromEntries(REDACTION_TYPES.map(t => [t, 0])) as Record<RedactionType, number>;
+
+  const placeholder = (type: RedactionType, value: string): string => {
+    const normalized = value.replace(/\D/g, "");
+    const digest = crypto.createHmac("sha256", vault!.salt).update(`${type}:${normalized}`).digest("hex");
+    return `[${type.toUpperCase()}_${digest.slice(0, 10)}]`;
+  };
+
+  return {
+    grantId,
+    policy,
+    counts,
+    async redact(text) {
+      if (!detectors.length || !text) return text;
+      // The vault (and its salt) is only created once something needs redacting, so e.g. a search never creates one
+      if (!vault) {
+        if (!detectors.some(d => new RegExp(d.pattern).test(text))) return text;
+        vault = await ensureRedactionVault(grantId);
+        for (const [t, e] of Object.entries(vault.entries)) known.set(t, e);
+      }
+      const added: Record<string, RedactionEntry> = {};
+      let out = text;
+      for (const d of detectors) {
+        out = out.replace(d.pattern, (match: string) => {
+          if (d.accept && !d.accept(match)) return match;
+          const token = placeholder(d.type, match);
+          counts[d.type]++;
+          if (!known.has(token)) {
+            const entry = { type: d.type, value: match, firstSeen: new Date().toISOString() };
+            known.set(token, entry);
+            added[token] = entry;
+          }
+          return token;
+        });
+      }
+      if (Object.keys(added).length) await addRedactionEntries(grantId, added);
+      return out;
+    },
+    async restore(text) {
+      if (!detectors.length || !text) return text;
+      const tokens = Array.from(text.matchAll(PLACEHOLDER), m => m[0]);
+      // Another worker may have added placeholders since this redactor loaded the vault
+      if (tokens.some(t => !known.has(t))) {
+        vault = (await loadRedactionVault(grantId)) ?? vault;
+        for (const [t, e] of Object.entries(vault?.entries ?? {})) if (!known.has(t)) known.set(t, e);
+      }
+      return text.replace(PLACEHOLDER, token => known.get(token)?.value ?? token);
+    },
+  };
+}
+
+// "card=1 ssn=0 phone=2 otp=1" for worker log lines
+export function formatRedactionCounts(redactor: Redactor): string {
+  return REDACTION_TYPES.map(t => `${t}=${redactor.counts[t]}`).join(" ");
+}
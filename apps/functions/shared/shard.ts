@@ -20,6 +20,33 @@ export function weekKeyFromDayKey(dayKey: string): string {
   return isoWeekKey(d);
 }
 
+// All day keys (YYYY-MM-DD) in an ISO week key (YYYY-Www), Monday first
+export function dayKeysForWeek(weekKey: string): string[] {
+  const m = weekKey.match(/^(\d{4})-W(\d{2})$/);
+  if (!m) return [];
+  const year = Number(m[1]);
+  const week = Number(m[2]);
+  // Jan 4th is always in ISO week 1
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const monday = new Date(jan4);
+  monday.setUTCDate(jan4.getUTCDate() - ((jan4.getUTCDay() || 7) - 1) + (week - 1) * 7);
+  return Array.from({ length: 7 }, (_, i) => {
+    const d = new Date(monday);
+    d.setUTCDate(monday.getUTCDate() + i);
+    return d.toISOString().slice(0, 10);
+  });
+}
+
+// All day keys (YYYY-MM-DD) in a month key (YYYY-MM)
+export function dayKeysForMonth(monthKey: string): string[] {
+  const m = monthKey.match(/^(\d{4})-(\d{2})$/);
+  if (!m) return [];
+  const year = Number(m[1]);
+  const month = Number(m[2]) - 1;
+  const days = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length: days }, (_, i) => new Date(Date.UTC(year, month, i + 1)).toISOString().slice(0, 10));
+}
+
 function isoWeekKey(date: Date): string {
   // ISO week number (UTC)
   const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
@@ -1,10 +1,181 @@
-import { promises as fs } from "fs";
 import * as path from "path";
+import crypto from "node:crypto";
+import type { BackfillJob } from "./bus";
+import { getStorageBackend, type StorageBackend } from "./storageBackend";
+import { getMasterKeyProvider, newDataKey, open, seal, sealedKeyId, type MasterKeyProvider } from "./encryption";
+import type { RedactionPolicy } from "./redaction";
 
 const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
 
-async function ensureDir(dir: string) {
-  await fs.mkdir(dir, { recursive: true }).catch(() => {});
+/** Absolute path under DATA_DIR, for modules that keep their own files alongside the per-grant store. */
+export function dataPath(...parts: string[]): string {
+  return path.join(DATA_DIR, ...parts);
+}
+
+// Per-grant state, including the model cache, goes through the configured backend (local disk or Azure Blob/Table,
+// see storageBackend.ts)
+function store(): StorageBackend {
+  return getStorageBackend(DATA_DIR);
+}
+
+// Grant ids become path segments on local disk and blob names, so only word characters and dashes are allowed
+const GRANT_ID_PATTERN = /^[\w-]+$/;
+
+export function isValidGrantId(grantId: string): boolean {
+  return GRANT_ID_PATTERN.test(grantId);
+}
+
+function grantKey(grantId: string, ...parts: string[]): string {
+  return ["grants", grantId, ...parts].join("/");
+}
+
+// --- Encryption at rest (see encryption.ts) ---
+// With STORAGE_MASTER_KEY set, mail content areas are sealed with the grant's current data key on write.
+// A file is read as sealed when it sits in one of those areas and its grant has a data key record; the bytes
+// themselves never decide. A record created over existing content sets plaintextRemains: until keys:rotate has
+// sealed that content, a file that doesn't open under its grant's keys is read as one of those plaintext files.
+const SEALED_AREAS = ["messages", "attachments", "blobs", "days", "threads", "summaries", "redactions", "cache"];
+
+type WrappedDataKey = { masterKeyId: string; wrapped: string; createdAt: string };
+type DataKeyRecord = { current: string; keys: Record<string, WrappedDataKey>; plaintextRemains?: boolean };
+
+const dataKeys = new Map<string, Buffer>(); // "<grantId>:<keyId>" -> unwrapped data key
+const currentDataKeyIds = new Map<string, string>();
+// Only grants with a record are cached: another process may create one at any time
+const dataKeyRecords = new Map<string, DataKeyRecord>();
+
+function dataKeyRecordKey(grantId: string): string {
+  return grantKey(grantId, "keys", "data-keys.json");
+}
+
+async function loadDataKeyRecord(grantId: string): Promise<DataKeyRecord | null> {
+  const buf = await store().read(dataKeyRecordKey(grantId));
+  const record = buf ? (JSON.parse(buf.toString("utf8")) as DataKeyRecord) : null;
+  if (record) dataKeyRecords.set(grantId, record);
+  return record;
+}
+
+async function hasSealedAreaContent(grantId: string): Promise<boolean> {
+  for (const area of SEALED_AREAS) if ((await store().list(grantKey(grantId, area))).length) return true;
+  return false;
+}
+
+function requireMasterKeys(): MasterKeyProvider {
+  const provider = getMasterKeyProvider();
+  if (!provider) throw new Error("Stored data is encrypted but STORAGE_MASTER_KEY is not configured");
+  return provider;
+}
+
+async function unwrapDataKey(grantId: string, keyId: string, record?: DataKeyRecord | null): Promise<Buffer> {
+  const cached = dataKeys.get(`${grantId}:${keyId}`);
+  if (cached) return cached;
+  // Not cached: re-read, since another process may have rotated in a new key
+  const wrapped = (record ?? (await loadDataKeyRecord(grantId)))?.keys[keyId];
+  if (!wrapped) throw new Error(`Data key ${keyId} for grant ${grantId} not found`);
+  const key = await requireMasterKeys().unwrap(wrapped.masterKeyId, wrapped.wrapped);
+  dataKeys.set(`${grantId}:${keyId}`, key);
+  return key;
+}
+
+async function currentDataKey(grantId: string, provider: MasterKeyProvider): Promise<{ id: string; key: Buffer }> {
+  const cachedId = currentDataKeyIds.get(grantId);
+  if (cachedId) return { id: cachedId, key: await unwrapDataKey(grantId, cachedId) };
+  let record = await loadDataKeyRecord(grantId);
+  if (!record) {
+    const dk = newDataKey();
+    const candidate: DataKeyRecord = { current: dk.id, keys: { [dk.id]: { ...(await provider.wrap(dk.key)), createdAt: new Date().toISOString() } } };
+    // Nothing can be sealed for this grant before its record exists, so whatever is already there is plaintext
+    if (await hasSealedAreaContent(grantId)) candidate.plaintextRemains = true;
+    // First writer wins when two workers create the grant's key at once
+    if (await store().write(dataKeyRecordKey(grantId), JSON.stringify(candidate, null, 2), { ifAbsent: true })) {
+      record = candidate;
+      dataKeyRecords.set(grantId, record);
+    } else {
+      record = await loadDataKeyRecord(grantId);
+    }
+    if (!record) throw new Error(`Could not create a data key for grant ${grantId}`);
+  }
+  currentDataKeyIds.set(grantId, record.current);
+  return { id: record.current, key: await unwrapDataKey(grantId, record.current, record) };
+}
+
+function isSealedArea(storageKey: string): boolean {
+  return SEALED_AREAS.includes(storageKey.split("/")[2]);
+}
+
+async function sealGrantData(grantId: string, storageKey: string, data: Buffer | string): Promise<Buffer | string> {
+  const provider = getMasterKeyProvider();
+  if (!provider || !isSealedArea(storageKey)) return data;
+  const { id, key } = await currentDataKey(grantId, provider);
+  return seal(id, key, typeof data === "string" ? Buffer.from(data, "utf8") : data, { grantId, storageKey });
+}
+
+// A stored file's plaintext and the data key it was sealed with (null when it is plaintext); see the section comment
+async function openStored(grantId: string, storageKey: string, buf: Buffer): Promise<{ plain: Buffer; keyId: string | null }> {
+  const asPlaintext = { plain: buf, keyId: null };
+  if (!isSealedArea(storageKey)) return asPlaintext;
+  const record = dataKeyRecords.get(grantId) ?? (await loadDataKeyRecord(grantId));
+  if (!record) return asPlaintext;
+  const ctx = { grantId, storageKey };
+  if (!record.plaintextRemains) {
+    const keyId = sealedKeyId(buf);
+    return { plain: open(await unwrapDataKey(grantId, keyId), buf, ctx), keyId };
+  }
+  let keyId: string;
+  try {
+    keyId = sealedKeyId(buf);
+  } catch {
+    return asPlaintext;
+  }
+  // An id missing from the cached record may be a newer key; check the stored record before calling it plaintext
+  const known = record.keys[keyId] ? record : await loadDataKeyRecord(grantId);
+  if (!known?.keys[keyId]) return asPlaintext;
+  const dataKey = await unwrapDataKey(grantId, keyId, known);
+  try {
+    return { plain: open(dataKey, buf, ctx), keyId };
+  } catch {
+    return asPlaintext;
+  }
+}
+
+async function openGrantData(grantId: string, storageKey: string, buf: Buffer): Promise<Buffer> {
+  return (await openStored(grantId, storageKey, buf)).plain;
+}
+
+const knownGrants = new Set<string>();
+
+// Every write registers the grant once per process, so listKnownGrants sees any grant with stored state
+async function writeGrant(grantId: string, parts: string[], data: Buffer | string, opts?: { ifAbsent?: boolean }): Promise<boolean> {
+  if (!knownGrants.has(grantId)) {
+    await store().registerGrant(grantId);
+    knownGrants.add(grantId);
+  }
+  const key = grantKey(grantId, ...parts);
+  return store().write(key, await sealGrantData(grantId, key, data), opts);
+}
+
+async function readGrantText(grantId: string, ...parts: string[]): Promise<string | null> {
+  const key = grantKey(grantId, ...parts);
+  const buf = await store().read(key);
+  return buf ? (await openGrantData(grantId, key, buf)).toString("utf8") : null;
+}
+
+async function readGrantJson<T>(grantId: string, ...parts: string[]): Promise<T | null> {
+  const txt = await readGrantText(grantId, ...parts);
+  if (txt === null) return null;
+  try {
+    return JSON.parse(txt) as T;
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonl<T>(data: string | null): T[] {
+  if (!data) return [];
+  return data
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as T);
 }
 
 export type DayNote = {
@@ -17,77 +188,224 @@ export type DayNote = {
   thread_id?: string;
 };
 
-export async function saveCleanText(grantId: string, messageId: string, text: string) {
-  const dir = path.join(DATA_DIR, "grants", grantId, "messages");
-  await ensureDir(dir);
-  const file = path.join(dir, `${messageId}.txt`);
-  await fs.writeFile(file, text, "utf8");
+// Full text goes to <id>.txt; when it differs, the message's own new content goes to <id>.new.txt
+export async function saveCleanText(grantId: string, messageId: string, text: string, newText?: string) {
+  await writeGrant(grantId, ["messages", `${messageId}.txt`], text);
+  if (newText !== undefined && newText !== text) {
+    await writeGrant(grantId, ["messages", `${messageId}.new.txt`], newText);
+  } else {
+    await store().remove(grantKey(grantId, "messages", `${messageId}.new.txt`));
+  }
+}
+
+export async function deleteCleanText(grantId: string, messageId: string): Promise<void> {
+  await store().remove(grantKey(grantId, "messages", `${messageId}.txt`));
+  await store().remove(grantKey(grantId, "messages", `${messageId}.new.txt`));
 }
 
+// --- Content-addressed attachment store ---
+// Bytes live once per grant at blobs/<sha256>; blobs/<sha256>.json records the analysis and every message it
+// appeared in. attachments/<messageId>/<attId>.meta.json points at the blob; filenames repeat within a message
+// (inline image.png), attachment ids don't.
+export type AttachmentOccurrence = { messageId: string; attId: string; filename: string; seenAt: string };
+
+export type AttachmentBlob = {
+  hash: string;
+  size: number;
+  contentType?: string;
+  createdAt: string;
+  analyzer?: string | null;
+  analysis?: string | null;
+  analyzedAt?: string;
+  occurrences: AttachmentOccurrence[];
+};
+
+export function attachmentHash(content: Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/** Store attachment bytes (once per distinct content) and point the message's copy at them. Returns the content hash. */
 export async function saveAttachment(
   grantId: string,
   messageId: string,
+  attId: string,
   filename: string,
   content: Buffer,
   contentType?: string
-) {
-  const dir = path.join(DATA_DIR, "grants", grantId, "attachments", messageId);
-  await ensureDir(dir);
-  const file = path.join(dir, filename);
-  await fs.writeFile(file, content);
-  if (contentType) {
-    const metaFile = path.join(dir, `${filename}.meta.json`);
-    await fs.writeFile(metaFile, JSON.stringify({ contentType, filename }, null, 2), "utf8");
+): Promise<string> {
+  const hash = attachmentHash(content);
+  // Write-once: identical bytes are never rewritten
+  await writeGrant(grantId, ["blobs", hash], content, { ifAbsent: true });
+  const meta = { attId, contentType, filename, contentHash: hash, size: content.length };
+  await writeGrant(grantId, ["attachments", messageId, `${encodeURIComponent(attId)}.meta.json`], JSON.stringify(meta, null, 2));
+  return hash;
+}
+
+export async function getAttachmentBlob(grantId: string, hash: string): Promise<AttachmentBlob | null> {
+  return readGrantJson<AttachmentBlob>(grantId, "blobs", `${hash}.json`);
+}
+
+// Attachments of one message are processed in parallel; serialize read-modify-write per blob record
+// (and per redaction vault)
+const grantLocks = new Map<string, Promise<unknown>>();
+
+async function withGrantLock<T>(grantId: string, name: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${grantId}:${name}`;
+  const prev = grantLocks.get(key) ?? Promise.resolve();
+  const run = prev.catch(() => {}).then(fn);
+  grantLocks.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (grantLocks.get(key) === run) grantLocks.delete(key);
   }
 }
 
+// Per-page text extracted from a PDF blob, written once next to it and removed with it
+export type AttachmentPages = {
+  info: Record<string, unknown>;
+  encrypted: boolean;
+  truncated: boolean; // extraction stopped at a document limit; pages end early
+  pageCount: number;
+  pages: { page: number; text: string }[];
+};
+
+export async function saveAttachmentPages(grantId: string, hash: string, pages: AttachmentPages): Promise<void> {
+  await writeGrant(grantId, ["blobs", `${hash}.pages.json`], JSON.stringify(pages, null, 2), { ifAbsent: true });
+}
+
+/** Read-modify-write a blob record under an in-process lock. `update` receives null for a first sighting. */
+export async function updateAttachmentBlob(
+  grantId: string,
+  hash: string,
+  update: (cur: AttachmentBlob | null) => AttachmentBlob
+): Promise<AttachmentBlob> {
+  return withGrantLock(grantId, hash, async () => {
+    const next = update(await getAttachmentBlob(grantId, hash));
+    await writeGrant(grantId, ["blobs", `${hash}.json`], JSON.stringify(next, null, 2));
+    return next;
+  });
+}
+
+/**
+ * Drop a message's attachment pointers and its occurrences on the blob records. Bytes, record and extracted
+ * page text go once no other message references them.
+ */
+export async function removeMessageAttachments(grantId: string, messageId: string): Promise<{ files: number; blobsDeleted: number }> {
+  const names = (await store().list(grantKey(grantId, "attachments", messageId))).filter(n => n.endsWith(".meta.json"));
+  const hashes = new Set<string>();
+  let blobsDeleted = 0;
+  for (const name of names) {
+    const meta = await readGrantJson<{ contentHash?: string }>(grantId, "attachments", messageId, name);
+    await store().remove(grantKey(grantId, "attachments", messageId, name));
+    if (meta?.contentHash) hashes.add(meta.contentHash);
+  }
+
+  for (const hash of hashes) {
+    const deleted = await withGrantLock(grantId, hash, async () => {
+      const cur = await getAttachmentBlob(grantId, hash);
+      if (!cur) return false;
+      const occurrences = cur.occurrences.filter(o => o.messageId !== messageId);
+      if (occurrences.length) {
+        await writeGrant(grantId, ["blobs", `${hash}.json`], JSON.stringify({ ...cur, occurrences }, null, 2));
+        return false;
+      }
+      await store().remove(grantKey(grantId, "blobs", hash));
+      await store().remove(grantKey(grantId, "blobs", `${hash}.pages.json`));
+      await store().remove(grantKey(grantId, "blobs", `${hash}.json`));
+      return true;
+    });
+    if (deleted) blobsDeleted++;
+  }
+  return { files: names.length, blobsDeleted };
+}
+
+/** Distinct messages a stored attachment has appeared in (0 if unknown). */
+export async function countAttachmentMessages(grantId: string, hash: string): Promise<number> {
+  const blob = await getAttachmentBlob(grantId, hash);
+  return blob ? new Set(blob.occurrences.map(o => o.messageId)).size : 0;
+}
+
 export async function appendDayNote(
   grantId: string,
   threadId: string | undefined,
   dayKey: string,
   note: DayNote
 ) {
-  const dir = path.join(DATA_DIR, "grants", grantId, "days", dayKey);
-  await ensureDir(dir);
-  const file = path.join(dir, "notes.jsonl");
+  const existing = (await readGrantText(grantId, "days", dayKey, "notes.jsonl")) ?? "";
   const record = { ...note, thread_id: threadId };
-  await fs.appendFile(file, JSON.stringify(record) + "\n", "utf8");
+  await writeGrant(grantId, ["days", dayKey, "notes.jsonl"], existing + JSON.stringify(record) + "\n");
+}
+
+// Rewrites the day's notes with any prior note for this message replaced (or removed when note is null)
+export async function replaceDayNote(
+  grantId: string,
+  threadId: string | undefined,
+  dayKey: string,
+  messageId: string,
+  note: DayNote | null
+) {
+  const kept = (await loadDayNotes(grantId, dayKey)).filter(n => n.messageId !== messageId);
+  if (note) kept.push({ ...note, thread_id: threadId });
+  const data = kept.map(n => JSON.stringify(n) + "\n").join("");
+  await writeGrant(grantId, ["days", dayKey, "notes.jsonl"], data);
 }
 
 export async function loadDayNotes(grantId: string, dayKey: string): Promise<DayNote[]> {
-  const file = path.join(DATA_DIR, "grants", grantId, "days", dayKey, "notes.jsonl");
+  // Read (and decrypt) outside the try: a missing master key must surface, not look like an empty day
+  const text = await readGrantText(grantId, "days", dayKey, "notes.jsonl");
   try {
-    const data = await fs.readFile(file, "utf8");
-    return data
-      .split(/\r?\n/)
-      .filter(Boolean)
-      .map((line) => JSON.parse(line) as DayNote);
+    return parseJsonl<DayNote>(text);
   } catch {
     return [];
   }
 }
 
+// --- Thread note store (per-grant) ---
+// One note per message, kept across pages and delta runs so thread rollups see the whole conversation
+export async function replaceThreadNote(
+  grantId: string,
+  threadId: string,
+  messageId: string,
+  note: DayNote | null
+) {
+  const kept = (await loadThreadNotes(grantId, threadId)).filter(n => n.messageId !== messageId);
+  if (note) kept.push({ ...note, thread_id: threadId });
+  kept.sort((a, b) => a.date_iso.localeCompare(b.date_iso));
+  const data = kept.map(n => JSON.stringify(n) + "\n").join("");
+  await writeGrant(grantId, ["threads", threadId, "notes.jsonl"], data);
+}
+
+export async function loadThreadNotes(grantId: string, threadId: string): Promise<DayNote[]> {
+  // As in loadDayNotes, decryption errors propagate
+  const text = await readGrantText(grantId, "threads", threadId, "notes.jsonl");
+  try {
+    return parseJsonl<DayNote>(text);
+  } catch {
+    return [];
+  }
+}
+
+export type SummaryKind = "day" | "week" | "month" | "thread";
+
 export async function saveSummary(
   grantId: string,
-  kind: "day" | "week" | "month" | "thread",
+  kind: SummaryKind,
   key: string,
   summary: string
 ) {
-  const dir = path.join(DATA_DIR, "grants", grantId, "summaries", kind);
-  await ensureDir(dir);
-  const file = path.join(dir, `${key}.txt`);
-  await fs.writeFile(file, summary, "utf8");
+  await writeGrant(grantId, ["summaries", kind, `${key}.txt`], summary);
+}
+
+// For buckets and threads whose last message was deleted
+export async function deleteSummary(grantId: string, kind: SummaryKind, key: string): Promise<void> {
+  await store().remove(grantKey(grantId, "summaries", kind, `${key}.txt`));
 }
 
 // --- Checkpoint store (per-grant) ---
 export async function getCheckpoint(grantId: string): Promise<number> {
-  const dir = path.join(DATA_DIR, "grants", grantId, "state");
-  const file = path.join(dir, `checkpoint.json`);
   try {
-    const txt = await fs.readFile(file, "utf8");
-    const json = JSON.parse(txt) as { lastCheckpoint?: number };
-    const v = Number(json?.lastCheckpoint || 0);
-    return Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+    return await store().getCheckpoint(grantId);
   } catch {
     return 0;
   }
@@ -95,26 +413,575 @@ export async function getCheckpoint(grantId: string): Promise<number> {
 
 export async function setCheckpoint(grantId: string, epochSeconds: number): Promise<void> {
   if (!Number.isFinite(epochSeconds) || epochSeconds <= 0) return;
-  const dir = path.join(DATA_DIR, "grants", grantId, "state");
-  await ensureDir(dir);
-  const file = path.join(dir, `checkpoint.json`);
-  let current = 0;
-  try {
-    const txt = await fs.readFile(file, "utf8");
-    const json = JSON.parse(txt) as { lastCheckpoint?: number };
-    current = Number(json?.lastCheckpoint || 0) || 0;
-  } catch {}
-  const next = Math.max(current, Math.floor(epochSeconds));
-  const payload = { lastCheckpoint: next, updatedAt: new Date().toISOString() };
-  await fs.writeFile(file, JSON.stringify(payload, null, 2), "utf8");
+  await store().advanceCheckpoint(grantId, epochSeconds);
+  knownGrants.add(grantId);
+}
+
+// --- Processed-message ledger (per-grant) ---
+// Records which message ids have been ingested and the content hash they had at the time,
+// so delta re-runs can skip unchanged messages and replace notes for changed ones.
+export type LedgerEntry = {
+  hash: string;
+  day_key: string;
+  thread_id?: string;
+  chunks?: number; // body chunk vectors written (chunk:<msgId>:0..n-1)
+  processedAt: string;
+};
+
+export type MessageLedger = Record<string, LedgerEntry>;
+
+export function contentHash(...parts: (string | null | undefined)[]): string {
+  const h = crypto.createHash("sha256");
+  for (const p of parts) {
+    h.update(p ?? "", "utf8");
+    h.update("\u0000");
+  }
+  return h.digest("hex");
+}
+
+export async function loadMessageLedger(grantId: string): Promise<MessageLedger> {
+  const json = await readGrantJson<MessageLedger>(grantId, "state", "ledger.json");
+  return json && typeof json === "object" ? json : {};
+}
+
+export async function saveMessageLedger(grantId: string, ledger: MessageLedger): Promise<void> {
+  await writeGrant(grantId, ["state", "ledger.json"], JSON.stringify(ledger));
+}
+
+// --- Dirty rollup tracking (per-grant) ---
+// Page workers mark day/week/month buckets dirty; the rollup worker claims and rebuilds them once bursts settle.
+export type RollupKeys = { days: string[]; weeks: string[]; months: string[] };
+
+export type RollupState = RollupKeys & {
+  firstMarkedAt?: number; // ms since epoch of the oldest unclaimed mark
+  lastMarkedAt?: number; // ms since epoch of the newest mark
+  scheduledFor?: number; // ms since epoch a rollup job is due; unset when none is pending
+};
+
+// A pending rollup or delta schedule older than this is assumed lost (e.g. message dead-lettered) and may be reclaimed
+const SCHEDULE_GRACE_MS = 10 * 60 * 1000;
+
+export function hasDirtyRollups(state: RollupKeys): boolean {
+  return state.days.length + state.weeks.length + state.months.length > 0;
+}
+
+export async function loadRollupState(grantId: string): Promise<RollupState> {
+  const json = await readGrantJson<Partial<RollupState>>(grantId, "state", "rollups.json");
+  return {
+    ...json,
+    days: Array.isArray(json?.days) ? json.days : [],
+    weeks: Array.isArray(json?.weeks) ? json.weeks : [],
+    months: Array.isArray(json?.months) ? json.months : [],
+  };
+}
+
+export async function saveRollupState(grantId: string, state: RollupState): Promise<void> {
+  await writeGrant(grantId, ["state", "rollups.json"], JSON.stringify(state, null, 2));
+}
+
+/**
+ * Merge keys into the grant's dirty set. Returns true when the caller should enqueue a rollup
+ * job for `scheduleFor` (no job is pending yet); false when one is already scheduled.
+ */
+export async function markRollupsDirty(grantId: string, keys: RollupKeys, scheduleFor: number): Promise<boolean> {
+  const state = await loadRollupState(grantId);
+  const now = Date.now();
+  const merge = (a: string[], b: string[]) => Array.from(new Set([...a, ...b])).sort();
+  state.days = merge(state.days, keys.days);
+  state.weeks = merge(state.weeks, keys.weeks);
+  state.months = merge(state.months, keys.months);
+  if (!hasDirtyRollups(state)) return false;
+  if (hasDirtyRollups(keys)) {
+    state.firstMarkedAt = state.firstMarkedAt ?? now;
+    state.lastMarkedAt = now;
+  }
+  let claim = false;
+  if (!state.scheduledFor || state.scheduledFor < now - SCHEDULE_GRACE_MS) {
+    state.scheduledFor = scheduleFor;
+    claim = true;
+  }
+  await saveRollupState(grantId, state);
+  return claim;
+}
+
+// Take ownership of all currently dirty keys, leaving an empty set behind for new marks
+export async function claimDirtyRollups(grantId: string): Promise<RollupKeys> {
+  const state = await loadRollupState(grantId);
+  const claimed: RollupKeys = { days: state.days, weeks: state.weeks, months: state.months };
+  await saveRollupState(grantId, { days: [], weeks: [], months: [] });
+  return claimed;
+}
+
+// --- Pending webhook delta (per-grant) ---
+// message.created notifications widen one pending window; a single coalesced delta job claims it once they settle.
+export type PendingDelta = {
+  sinceEpoch: number; // earliest window start requested, seconds since epoch
+  messageIds: string[]; // ids named by the notifications (capped)
+  events: number;
+  firstAt: number; // ms since epoch of the oldest unclaimed notification
+  lastAt: number; // ms since epoch of the newest notification
+  scheduledFor?: number; // ms since epoch the delta job is due; unset when none is pending
+};
+
+const PENDING_DELTA_MAX_IDS = 500;
+
+export async function loadPendingDelta(grantId: string): Promise<PendingDelta | null> {
+  const json = await readGrantJson<PendingDelta>(grantId, "state", "pending-delta.json");
+  return json && Number(json.events) > 0 ? json : null;
+}
+
+export async function savePendingDelta(grantId: string, state: PendingDelta | null): Promise<void> {
+  if (!state) {
+    await store().remove(grantKey(grantId, "state", "pending-delta.json"));
+    return;
+  }
+  await writeGrant(grantId, ["state", "pending-delta.json"], JSON.stringify(state, null, 2));
+}
+
+/**
+ * Fold one notification into the grant's pending window. Returns true when the caller should enqueue
+ * the coalesced delta job for `scheduleFor` (none is pending yet); false when the event joined a scheduled one.
+ */
+export async function markDeltaPending(grantId: string, sinceEpoch: number, messageId: string | undefined, scheduleFor: number): Promise<boolean> {
+  const now = Date.now();
+  const cur = await loadPendingDelta(grantId);
+  const ids = new Set(cur?.messageIds ?? []);
+  if (messageId && ids.size < PENDING_DELTA_MAX_IDS) ids.add(messageId);
+  const state: PendingDelta = {
+    sinceEpoch: cur ? Math.min(cur.sinceEpoch, sinceEpoch) : sinceEpoch,
+    messageIds: Array.from(ids),
+    events: (cur?.events ?? 0) + 1,
+    firstAt: cur?.firstAt ?? now,
+    lastAt: now,
+    scheduledFor: cur?.scheduledFor,
+  };
+  let claim = false;
+  if (!state.scheduledFor || state.scheduledFor < now - SCHEDULE_GRACE_MS) {
+    state.scheduledFor = scheduleFor;
+    claim = true;
+  }
+  await savePendingDelta(grantId, state);
+  return claim;
+}
+
+// Take ownership of the pending window, leaving nothing behind so later notifications schedule a new job
+export async function claimPendingDelta(grantId: string): Promise<PendingDelta | null> {
+  const state = await loadPendingDelta(grantId);
+  if (state) await savePendingDelta(grantId, null);
+  return state;
+}
+
+// --- Redaction vault (per-grant) ---
+// Originals behind the placeholders redaction.ts substitutes into model input. Sealed like mail content and
+// purged with the grant; the salt keys placeholder derivation so a placeholder can't be guessed back to its value.
+export type RedactionEntry = { type: string; value: string; firstSeen: string };
+export type RedactionVault = { salt: string; entries: Record<string, RedactionEntry> };
+
+export async function loadRedactionVault(grantId: string): Promise<RedactionVault | null> {
+  return readGrantJson<RedactionVault>(grantId, "redactions", "vault.json");
+}
+
+/** The grant's vault, created with a fresh salt on first use (first writer wins across workers). */
+export async function ensureRedactionVault(grantId: string): Promise<RedactionVault> {
+  const cur = await loadRedactionVault(grantId);
+  if (cur) return cur;
+  const candidate: RedactionVault = { salt: crypto.randomBytes(32).toString("base64"), entries: {} };
+  if (await writeGrant(grantId, ["redactions", "vault.json"], JSON.stringify(candidate, null, 2), { ifAbsent: true })) return candidate;
+  const winner = await loadRedactionVault(grantId);
+  if (!winner) throw new Error(`Could not create the redaction vault for grant ${grantId}`);
+  return winner;
+}
+
+/** Merge placeholders into the vault; a placeholder already present keeps its first-seen original. */
+export async function addRedactionEntries(grantId: string, entries: Record<string, RedactionEntry>): Promise<void> {
+  await withGrantLock(grantId, "redactions", async () => {
+    const vault = await ensureRedactionVault(grantId);
+    vault.entries = { ...entries, ...vault.entries };
+    await writeGrant(grantId, ["redactions", "vault.json"], JSON.stringify(vault, null, 2));
+  });
+}
+
+// --- Sync status (per-grant, per chain kind) ---
+// Progress of the most recent backfill chain and the most recent delta chain, polled by the UI via
+// GET /api/sync/status/{grantId}. The two are kept apart so a delta starting mid-backfill doesn't reset it.
+export type SyncState = "queued" | "running" | "paused" | "cancelled" | "done" | "failed";
+export type SyncKind = "backfill" | "delta";
+export const SYNC_KINDS: SyncKind[] = ["backfill", "delta"];
+
+export type SyncStatus = {
+  kind: SyncKind;
+  state: SyncState;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  sinceEpoch: number;
+  pagesDone: number;
+  processed: number;
+  max: number;
+  vectorsUpserted: number;
+  lastCursor?: string | null;
+  lastError?: string | null;
+};
+
+// Jobs queued before chains carried a kind: coalesced webhook jobs were deltas, everything else is a backfill
+export function syncKindOf(job: BackfillJob): SyncKind {
+  return job.kind ?? (job.coalesced ? "delta" : "backfill");
+}
+
+// The backfill slot keeps the original file name so existing status records stay readable
+function syncStatusFile(kind: SyncKind): string {
+  return kind === "backfill" ? "sync-status.json" : `sync-status-${kind}.json`;
+}
+
+export async function getSyncStatus(grantId: string, kind: SyncKind): Promise<SyncStatus | null> {
+  const status = await readGrantJson<SyncStatus>(grantId, "state", syncStatusFile(kind));
+  return status ? { ...status, kind } : null;
+}
+
+export async function saveSyncStatus(grantId: string, status: SyncStatus): Promise<void> {
+  await writeGrant(grantId, ["state", syncStatusFile(status.kind)], JSON.stringify({ ...status, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+// Start a fresh status record for a newly enqueued chain; the other kind's record is left alone
+export async function resetSyncStatus(grantId: string, kind: SyncKind, state: SyncState, sinceEpoch: number, max: number): Promise<void> {
+  const now = new Date().toISOString();
+  await saveSyncStatus(grantId, {
+    kind,
+    state,
+    startedAt: now,
+    updatedAt: now,
+    sinceEpoch,
+    pagesDone: 0,
+    processed: 0,
+    max,
+    vectorsUpserted: 0,
+    lastCursor: null,
+    lastError: null,
+  });
+}
+
+export async function updateSyncStatus(grantId: string, kind: SyncKind, patch: (prev: SyncStatus) => Partial<SyncStatus>): Promise<void> {
+  const prev = await getSyncStatus(grantId, kind);
+  if (!prev) return;
+  await saveSyncStatus(grantId, { ...prev, ...patch(prev), kind });
+}
+
+// --- Sync control (per-grant) ---
+// Operator pause/cancel flag checked by the worker before processing a page and before chaining the next one
+export type SyncControl = {
+  state: "active" | "paused" | "cancelled";
+  updatedAt: number; // ms since epoch
+  pausedJobs?: BackfillJob[]; // jobs to re-enqueue on resume (keep their pageToken), at most one per sync kind
+};
+
+export async function getSyncControl(grantId: string): Promise<SyncControl> {
+  return (await readGrantJson<SyncControl>(grantId, "state", "sync-control.json")) ?? { state: "active", updatedAt: 0 };
+}
+
+export async function setSyncControl(grantId: string, control: SyncControl): Promise<void> {
+  await writeGrant(grantId, ["state", "sync-control.json"], JSON.stringify(control, null, 2));
+}
+
+// Two held chains of the same kind become one restart over the union of their windows: it starts again from the
+// first page and the message ledger skips whatever either chain had already stored. A redelivered job is kept as is.
+function mergeHeldJobs(held: BackfillJob, job: BackfillJob): BackfillJob {
+  if (held.enqueuedAt === job.enqueuedAt && held.pageToken === job.pageToken && held.sinceEpoch === job.sinceEpoch) return held;
+  const stamps = [held.enqueuedAt, job.enqueuedAt].filter((t): t is number => t !== undefined);
+  return {
+    grantId: held.grantId,
+    kind: syncKindOf(held),
+    sinceEpoch: Math.min(held.sinceEpoch, job.sinceEpoch),
+    max: Math.max(held.max, job.max),
+    processed: 0,
+    attempt: 0,
+    enqueuedAt: stamps.length ? Math.min(...stamps) : undefined,
+  };
+}
+
+/**
+ * Keep `job` for resume while the grant is paused, merged into the held job of the same kind if there is one.
+ * Returns "not_paused" (and stores nothing) when the grant was resumed or cancelled since the caller checked.
+ */
+export async function holdPausedJob(grantId: string, job: BackfillJob): Promise<{ result: "held" | "merged" | "not_paused"; job: BackfillJob }> {
+  return withGrantLock(grantId, "sync-control", async () => {
+    const control = await getSyncControl(grantId);
+    if (control.state !== "paused") return { result: "not_paused", job };
+    const held = control.pausedJobs ?? [];
+    const same = held.find(h => syncKindOf(h) === syncKindOf(job));
+    const stored = same ? mergeHeldJobs(same, job) : job;
+    await setSyncControl(grantId, { ...control, pausedJobs: [...held.filter(h => h !== same), stored] });
+    return { result: same ? "merged" : "held", job: stored };
+  });
+}
+
+/** Set a paused grant back to active and hand over its held jobs to re-enqueue; null when it wasn't paused. */
+export async function resumeSyncControl(grantId: string): Promise<BackfillJob[] | null> {
+  return withGrantLock(grantId, "sync-control", async () => {
+    const control = await getSyncControl(grantId);
+    if (control.state !== "paused") return null;
+    await setSyncControl(grantId, { state: "active", updatedAt: Date.now() });
+    return control.pausedJobs ?? [];
+  });
+}
+
+// Cancellation applies to jobs enqueued before it; chains started afterwards run normally
+export function isCancelled(control: SyncControl, job: BackfillJob): boolean {
+  return control.state === "cancelled" && (job.enqueuedAt ?? 0) <= control.updatedAt;
+}
+
+// --- Failed backfill jobs (per-grant dead-letter store) ---
+export type FailedJobRecord = {
+  id: string;
+  job: BackfillJob;
+  error: string;
+  attempt: number;
+  failedAt: string;
+};
+
+export async function recordFailedJob(grantId: string, job: BackfillJob, error: string): Promise<FailedJobRecord> {
+  const record: FailedJobRecord = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+    job,
+    error,
+    attempt: job.attempt ?? 0,
+    failedAt: new Date().toISOString(),
+  };
+  await writeGrant(grantId, ["state", "failed-jobs", `${record.id}.json`], JSON.stringify(record, null, 2));
+  return record;
+}
+
+export async function listFailedJobs(grantId: string): Promise<FailedJobRecord[]> {
+  const files = (await store().list(grantKey(grantId, "state", "failed-jobs"))).filter(f => f.endsWith(".json")).sort();
+  const out: FailedJobRecord[] = [];
+  for (const f of files) {
+    const rec = await readGrantJson<FailedJobRecord>(grantId, "state", "failed-jobs", f);
+    if (rec) out.push(rec);
+  }
+  return out;
+}
+
+export async function removeFailedJob(grantId: string, id: string): Promise<boolean> {
+  if (!/^[\w-]+$/.test(id)) return false;
+  return store().remove(grantKey(grantId, "state", "failed-jobs", `${id}.json`));
 }
 
 export async function listKnownGrants(): Promise<string[]> {
-  const dir = path.join(DATA_DIR, "grants");
   try {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    return entries.filter(e => e.isDirectory()).map(e => e.name);
+    return await store().listGrants();
   } catch {
     return [];
   }
 }
+
+// --- Grant lifecycle ---
+// Kept outside grants/<id>/ so the mark survives a purge and doesn't re-register the grant.
+// Workers and the delta timer skip grants marked expired or deleted.
+export type GrantLifecycle = {
+  state: "expired" | "deleted";
+  at: string; // ISO time the notification or purge was handled
+  reason?: string;
+};
+
+export async function getGrantLifecycle(grantId: string): Promise<GrantLifecycle | null> {
+  const buf = await store().read(`lifecycle/${grantId}.json`);
+  if (!buf) return null;
+  try {
+    return JSON.parse(buf.toString("utf8")) as GrantLifecycle;
+  } catch {
+    return null;
+  }
+}
+
+/** Record (or, with null, clear) the grant's lifecycle mark. */
+export async function setGrantLifecycle(grantId: string, lifecycle: GrantLifecycle | null): Promise<void> {
+  if (!lifecycle) {
+    await store().remove(`lifecycle/${grantId}.json`);
+    return;
+  }
+  await store().write(`lifecycle/${grantId}.json`, JSON.stringify(lifecycle, null, 2));
+}
+
+// --- Grant registry ---
+// registry/grants/<grantId>.json describes each onboarded mailbox; API keys submitted through the admin API
+// are kept apart under registry/secrets/ so listing the registry never reads them.
+export type GrantRecord = {
+  grantId: string;
+  owner?: string; // tenant/user the mailbox belongs to
+  email?: string;
+  provider?: string; // e.g. google, microsoft, imap
+  enabled: boolean;
+  keyRef?: string; // "env:<APP_SETTING>" or "secret:<grantId>"; unset means NYLAS_API_KEY
+  createdAt: string;
+  updatedAt: string;
+  lastSyncedAt?: string; // last delta/backfill chain that reached the end
+  disabledAt?: string;
+  disabledReason?: string;
+  redaction?: Partial<RedactionPolicy>; // overrides REDACTION_TYPES / REDACTION_IMAGES for this grant
+};
+
+export async function loadGrantRecord(grantId: string): Promise<GrantRecord | null> {
+  const buf = await store().read(`registry/grants/${grantId}.json`);
+  if (!buf) return null;
+  try {
+    return JSON.parse(buf.toString("utf8")) as GrantRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveGrantRecord(record: GrantRecord): Promise<void> {
+  await store().write(`registry/grants/${record.grantId}.json`, JSON.stringify(record, null, 2));
+}
+
+export async function removeGrantRecord(grantId: string): Promise<boolean> {
+  await store().remove(`registry/secrets/${grantId}`);
+  return store().remove(`registry/grants/${grantId}.json`);
+}
+
+export async function listGrantRecords(): Promise<GrantRecord[]> {
+  const names = (await store().list("registry/grants")).filter(n => n.endsWith(".json"));
+  const records: GrantRecord[] = [];
+  for (const name of names.sort()) {
+    const record = await loadGrantRecord(name.slice(0, -".json".length));
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+// Secrets are wrapped directly by the master key when one is configured: { masterKeyId, wrapped }
+export async function readGrantSecret(name: string): Promise<string | null> {
+  const buf = await store().read(`registry/secrets/${name}`);
+  if (!buf) return null;
+  const text = buf.toString("utf8");
+  if (!text.startsWith("{")) return text;
+  const sealed = JSON.parse(text) as { masterKeyId: string; wrapped: string };
+  return (await requireMasterKeys().unwrap(sealed.masterKeyId, sealed.wrapped)).toString("utf8");
+}
+
+export async function writeGrantSecret(name: string, value: string): Promise<void> {
+  const provider = getMasterKeyProvider();
+  const data = provider ? JSON.stringify(await provider.wrap(Buffer.from(value, "utf8"))) : value;
+  await store().write(`registry/secrets/${name}`, data);
+}
+
+/**
+ * Delete everything stored under grants/<grantId>/ (text, attachments, blobs, notes, summaries, ledger,
+ * checkpoint and sync state) and unregister the grant. Reports the number of objects removed per area.
+ */
+export async function purgeGrantStorage(grantId: string): Promise<{ backend: StorageBackend["kind"]; byArea: Record<string, number> }> {
+  if (!isValidGrantId(grantId)) throw new Error(`Invalid grantId "${grantId}"`);
+  const removed: Record<string, number> = {};
+  for (const area of await store().list(grantKey(grantId))) {
+    removed[area] = await store().removePrefix(grantKey(grantId, area));
+  }
+  await store().removePrefix(grantKey(grantId));
+  await store().unregisterGrant(grantId);
+  knownGrants.delete(grantId);
+  currentDataKeyIds.delete(grantId);
+  dataKeyRecords.delete(grantId);
+  for (const k of Array.from(dataKeys.keys())) if (k.startsWith(`${grantId}:`)) dataKeys.delete(k);
+  return { backend: store().kind, byArea: removed };
+}
+
+// --- Key rotation (local/rotateKeys.ts) ---
+export type KeyRotationReport = {
+  grantId: string;
+  rewrapped: number; // data keys re-wrapped with the current master key
+  dataKeyRotated: boolean;
+  sealed: number; // plaintext files encrypted for the first time
+  resealed: number; // files re-encrypted under the new data key
+};
+
+// Every object below a prefix, descending into "directories" (a name with nothing under it is an object)
+async function listKeysUnder(prefix: string): Promise<string[]> {
+  const out: string[] = [];
+  for (const name of await store().list(prefix)) {
+    const child = `${prefix}/${name}`;
+    const nested = await listKeysUnder(child);
+    if (nested.length) out.push(...nested);
+    else out.push(child);
+  }
+  return out;
+}
+
+/**
+ * Re-wrap the grant's data keys with the current master key and encrypt content still stored in plaintext.
+ * With `rotateDataKey`, a fresh data key becomes current and all content is re-encrypted under it; older
+ * data keys stay in the record (re-wrapped) so workers that cached them keep working until they restart.
+ */
+export async function rotateGrantKeys(grantId: string, opts: { rotateDataKey?: boolean } = {}): Promise<KeyRotationReport> {
+  const provider = getMasterKeyProvider();
+  if (!provider) throw new Error("STORAGE_MASTER_KEY is not configured");
+  const report: KeyRotationReport = { grantId, rewrapped: 0, dataKeyRotated: false, sealed: 0, resealed: 0 };
+
+  const existing = await loadDataKeyRecord(grantId);
+  const record: DataKeyRecord = existing ?? { current: "", keys: {} };
+  for (const [id, wrapped] of Object.entries(record.keys)) {
+    const key = await unwrapDataKey(grantId, id, existing);
+    record.keys[id] = { ...(await provider.wrap(key)), createdAt: wrapped.createdAt };
+    report.rewrapped++;
+  }
+  if (opts.rotateDataKey || !record.current) {
+    const dk = newDataKey();
+    record.keys[dk.id] = { ...(await provider.wrap(dk.key)), createdAt: new Date().toISOString() };
+    record.current = dk.id;
+    dataKeys.set(`${grantId}:${dk.id}`, dk.key);
+    report.dataKeyRotated = Boolean(existing);
+  }
+  // A grant without a record has only plaintext content so far
+  if (!existing) record.plaintextRemains = true;
+  await store().write(dataKeyRecordKey(grantId), JSON.stringify(record, null, 2));
+  dataKeyRecords.set(grantId, record);
+  currentDataKeyIds.set(grantId, record.current);
+
+  const current = await unwrapDataKey(grantId, record.current, record);
+  for (const area of SEALED_AREAS) {
+    for (const storageKey of await listKeysUnder(grantKey(grantId, area))) {
+      const buf = await store().read(storageKey);
+      if (!buf) continue;
+      const { plain, keyId } = await openStored(grantId, storageKey, buf);
+      if (keyId === record.current) continue;
+      await store().write(storageKey, seal(record.current, current, plain, { grantId, storageKey }));
+      if (keyId) report.resealed++;
+      else report.sealed++;
+    }
+  }
+  // Everything is sealed now, so reads stop falling back to plaintext
+  if (record.plaintextRemains) {
+    delete record.plaintextRemains;
+    await store().write(dataKeyRecordKey(grantId), JSON.stringify(record, null, 2));
+  }
+  return report;
+}
+
+/** Re-wrap stored registry API keys with the current master key (plaintext ones get wrapped). Returns how many. */
+export async function rewrapGrantSecrets(): Promise<number> {
+  let n = 0;
+  for (const name of await store().list("registry/secrets")) {
+    const value = await readGrantSecret(name);
+    if (value === null) continue;
+    await writeGrantSecret(name, value);
+    n++;
+  }
+  return n;
+}
+
+// --- Model output cache (grants/<id>/cache/<kind>/<ab>/<key>.json) ---
+// Keys are content hashes, scoped to the grant whose content produced them: entries are sealed with its data key
+// and removed by a purge. Identical content in two grants is computed (and paid for) once per grant.
+function aiCacheParts(kind: string, key: string): string[] {
+  return ["cache", kind, key.slice(0, 2), `${key}.json`];
+}
+
+export async function readAiCache<T>(grantId: string, kind: string, key: string): Promise<T | null> {
+  try {
+    return await readGrantJson<T>(grantId, ...aiCacheParts(kind, key));
+  } catch {
+    // An entry cut short by a crash (or sealed with a key no longer configured) is just a miss
+    return null;
+  }
+}
+
+export async function writeAiCache(grantId: string, kind: string, key: string, value: unknown): Promise<void> {
+  await writeGrant(grantId, aiCacheParts(kind, key), JSON.stringify(value));
+}
@@ -0,0 +1,289 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { BlobServiceClient, RestError, type ContainerClient } from "@azure/storage-blob";
+import { TableClient, odata } from "@azure/data-tables";
+
+// Where per-grant state lives. STORAGE_BACKEND=fs (default) keeps it under DATA_DIR on local disk;
+// STORAGE_BACKEND=azure puts documents in a Blob container and checkpoints plus the grant list in a Table,
+// so every scaled-out instance sees the same state and it survives redeploys.
+// Keys are "/"-separated paths such as grants/<grantId>/messages/<messageId>.txt.
+
+export interface StorageBackend {
+  readonly kind: "fs" | "azure";
+  read(key: string): Promise<Buffer | null>;
+  /** Returns false (and leaves the stored value alone) when `ifAbsent` is set and the key already exists. */
+  write(key: string, data: Buffer | string, opts?: { ifAbsent?: boolean }): Promise<boolean>;
+  remove(key: string): Promise<boolean>;
+  /** Names directly under a "directory" prefix, sub-directories included, without trailing slashes. */
+  list(prefix: string): Promise<string[]>;
+  /** Delete every key under a "directory" prefix. Returns how many were removed. */
+  removePrefix(prefix: string): Promise<number>;
+  getCheckpoint(grantId: string): Promise<number>;
+  /** Raise the grant's checkpoint to `epochSeconds` if that is later; it never moves back. Returns the stored value. */
+  advanceCheckpoint(grantId: string, epochSeconds: number): Promise<number>;
+  registerGrant(grantId: string): Promise<void>;
+  /** Forget the grant and its checkpoint (its documents are removed separately with removePrefix). */
+  unregisterGrant(grantId: string): Promise<void>;
+  listGrants(): Promise<string[]>;
+}
+
+// --- Filesystem ---
+
+function createFsBackend(root: string): StorageBackend {
+  const file = (key: string) => path.join(root, ...key.split("/"));
+  const checkpointKey = (grantId: string) => `grants/${grantId}/state/checkpoint.json`;
+
+  const backend: StorageBackend = {
+    kind: "fs",
+
+    async read(key) {
+      try {
+        return await fs.readFile(file(key));
+      } catch {
+        return null;
+      }
+    },
+
+    async write(key, data, opts = {}) {
+      const f = file(key);
+      await fs.mkdir(path.dirname(f), { recursive: true }).catch(() => {});
+      try {
+        // "wx" fails if the file exists: used for write-once content
+        await fs.writeFile(f, data, opts.ifAbsent ? { flag: "wx" } : undefined);
+        return true;
+      } catch (e: any) {
+        if (opts.ifAbsent && e?.code === "EEXIST") return false;
+        throw e;
+      }
+    },
+
+    async remove(key) {
+      try {
+        await fs.unlink(file(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list(prefix) {
+      return fs.readdir(file(prefix.replace(/\/+$/, ""))).catch(() => [] as string[]);
+    },
+
+    async removePrefix(prefix) {
+      const dir = file(prefix.replace(/\/+$/, ""));
+      const countFiles = async (p: string): Promise<number> => {
+        const stat = await fs.stat(p).catch(() => null);
+        if (!stat) return 0;
+        if (!stat.isDirectory()) return 1;
+        let n = 0;
+        for (const name of await fs.readdir(p)) n += await countFiles(path.join(p, name));
+        return n;
+      };
+      const count = await countFiles(dir);
+      await fs.rm(dir, { recursive: true, force: true });
+      return count;
+    },
+
+    async getCheckpoint(grantId) {
+      const raw = await backend.read(checkpointKey(grantId));
+      if (!raw) return 0;
+      try {
+        const v = Number((JSON.parse(raw.toString("utf8")) as { lastCheckpoint?: number })?.lastCheckpoint || 0);
+        return Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+      } catch {
+        return 0;
+      }
+    },
+
+    async advanceCheckpoint(grantId, epochSeconds) {
+      const next = Math.max(await backend.getCheckpoint(grantId), Math.floor(epochSeconds));
+      const payload = { lastCheckpoint: next, updatedAt: new Date().toISOString() };
+      await backend.write(checkpointKey(grantId), JSON.stringify(payload, null, 2));
+      return next;
+    },
+
+    // A grant is known once its directory exists
+    async registerGrant(grantId) {
+      await fs.mkdir(path.join(root, "grants", grantId), { recursive: true }).catch(() => {});
+    },
+
+    // The checkpoint lives inside the grant directory, which removePrefix takes care of
+    async unregisterGrant() {},
+
+    async listGrants() {
+      try {
+        const entries = await fs.readdir(path.join(root, "grants"), { withFileTypes: true });
+        return entries.filter(e => e.isDirectory()).map(e => e.name);
+      } catch {
+        return [];
+      }
+    },
+  };
+  return backend;
+}
+
+// --- Azure Blob + Table (also runs against the Azurite emulator: AZURE_STORAGE_CONNECTION_STRING=UseDevelopmentStorage=true) ---
+
+const GRANT_PARTITION = "grant";
+
+type GrantEntity = { partitionKey: string; rowKey: string; lastCheckpoint?: number; checkpointAt?: string; registeredAt?: string };
+
+function statusOf(e: unknown): number {
+  return e instanceof RestError ? Number(e.statusCode || 0) : Number((e as any)?.statusCode || 0);
+}
+
+function createAzureBackend(connection: string): StorageBackend {
+  const containerName = process.env.STORAGE_CONTAINER || "email-agent-state";
+  const tableName = process.env.STORAGE_TABLE || "grants";
+  const container: ContainerClient = BlobServiceClient.fromConnectionString(connection).getContainerClient(containerName);
+  // Azurite speaks plain http; the Table client refuses that unless told otherwise
+  const table = TableClient.fromConnectionString(connection, tableName, {
+    allowInsecureConnection: /UseDevelopmentStorage=true|=http:/i.test(connection),
+  });
+
+  let ready: Promise<void> | null = null;
+  const ensureReady = () => {
+    ready ??= Promise.all([container.createIfNotExists(), table.createTable()]).then(() => undefined).catch((e) => {
+      ready = null;
+      throw e;
+    });
+    return ready;
+  };
+
+  const getGrant = async (grantId: string): Promise<(GrantEntity & { etag: string }) | null> => {
+    try {
+      return await table.getEntity<GrantEntity>(GRANT_PARTITION, grantId);
+    } catch (e) {
+      if (statusOf(e) === 404) return null;
+      throw e;
+    }
+  };
+
+  const registered = new Set<string>();
+
+  return {
+    kind: "azure",
+
+    async read(key) {
+      await ensureReady();
+      try {
+        return await container.getBlockBlobClient(key).downloadToBuffer();
+      } catch (e) {
+        if (statusOf(e) === 404) return null;
+        throw e;
+      }
+    },
+
+    async write(key, data, opts = {}) {
+      await ensureReady();
+      const body = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+      try {
+        await container.getBlockBlobClient(key).uploadData(body, {
+          conditions: opts.ifAbsent ? { ifNoneMatch: "*" } : undefined,
+        });
+        return true;
+      } catch (e) {
+        const status = statusOf(e);
+        if (opts.ifAbsent && (status === 409 || status === 412)) return false;
+        throw e;
+      }
+    },
+
+    async remove(key) {
+      await ensureReady();
+      const res = await container.getBlockBlobClient(key).deleteIfExists();
+      return res.succeeded;
+    },
+
+    async list(prefix) {
+      await ensureReady();
+      const dir = prefix.endsWith("/") ? prefix : `${prefix}/`;
+      const names: string[] = [];
+      for await (const item of container.listBlobsByHierarchy("/", { prefix: dir })) {
+        names.push(item.name.slice(dir.length).replace(/\/$/, ""));
+      }
+      return names;
+    },
+
+    async removePrefix(prefix) {
+      await ensureReady();
+      const dir = prefix.endsWith("/") ? prefix : `${prefix}/`;
+      let count = 0;
+      for await (const item of container.listBlobsFlat({ prefix: dir })) {
+        if ((await container.getBlockBlobClient(item.name).deleteIfExists()).succeeded) count++;
+      }
+      return count;
+    },
+
+    async getCheckpoint(grantId) {
+      await ensureReady();
+      const v = Number((await getGrant(grantId))?.lastCheckpoint || 0);
+      return Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+    },
+
+    // Optimistic concurrency on the entity's etag so two instances can't move the checkpoint backwards
+    async advanceCheckpoint(grantId, epochSeconds) {
+      await ensureReady();
+      for (let attempt = 0; ; attempt++) {
+        const cur = await getGrant(grantId);
+        const next = Math.max(Number(cur?.lastCheckpoint || 0), Math.floor(epochSeconds));
+        if (cur && Number(cur.lastCheckpoint || 0) === next) return next;
+        const entity: GrantEntity = { partitionKey: GRANT_PARTITION, rowKey: grantId, lastCheckpoint: next, checkpointAt: new Date().toISOString() };
+        try {
+          if (cur) await table.updateEntity(entity, "Merge", { etag: cur.etag });
+          else await table.createEntity({ ...entity, registeredAt: entity.checkpointAt });
+          registered.add(grantId);
+          return next;
+        } catch (e) {
+          const status = statusOf(e);
+          if ((status !== 409 && status !== 412) || attempt >= 4) throw e;
+        }
+      }
+    },
+
+    async registerGrant(grantId) {
+      if (registered.has(grantId)) return;
+      await ensureReady();
+      if (!(await getGrant(grantId))) {
+        await table.createEntity({ partitionKey: GRANT_PARTITION, rowKey: grantId, registeredAt: new Date().toISOString() }).catch((e) => {
+          if (statusOf(e) !== 409) throw e;
+        });
+      }
+      registered.add(grantId);
+    },
+
+    async unregisterGrant(grantId) {
+      await ensureReady();
+      await table.deleteEntity(GRANT_PARTITION, grantId).catch((e) => {
+        if (statusOf(e) !== 404) throw e;
+      });
+      registered.delete(grantId);
+    },
+
+    async listGrants() {
+      await ensureReady();
+      const out: string[] = [];
+      const entities = table.listEntities<GrantEntity>({ queryOptions: { filter: odata`PartitionKey eq ${GRANT_PARTITION}`, select: ["rowKey"] } });
+      for await (const e of entities) out.push(e.rowKey);
+      return out;
+    },
+  };
+}
+
+let backend: StorageBackend | null = null;
+
+export function getStorageBackend(dataDir: string): StorageBackend {
+  if (backend) return backend;
+  const kind = (process.env.STORAGE_BACKEND || "fs").toLowerCase();
+  if (kind === "fs") {
+    backend = createFsBackend(dataDir);
+  } else if (kind === "azure") {
+    const connection = process.env.AZURE_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage;
+    if (!connection) throw new Error("AZURE_STORAGE_CONNECTION_STRING is not configured");
+    backend = createAzureBackend(connection);
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND "${kind}" (expected fs or azure)`);
+  }
+  return backend;
+}
@@ -0,0 +1,373 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import crypto from "node:crypto";
+import type { PineconeRecord, RecordMetadata } from "@pinecone-database/pinecone";
+import * as pinecone from "./pinecone";
+import { dataPath } from "./storage";
+
+// Vector index abstraction. VECTOR_STORE=pinecone (default) talks to Pinecone; VECTOR_STORE=local keeps one
+// append-only JSONL log per namespace under DATA_DIR/vectors, so the app runs end to end without Pinecone.
+
+export type VectorMetadata = RecordMetadata;
+export type VectorRecord = PineconeRecord<VectorMetadata>;
+
+type FilterScalar = string | number | boolean;
+
+/** Conditions on one metadata field; list-valued fields match if any element matches. */
+export type FieldFilter = {
+  $eq?: FilterScalar;
+  $ne?: FilterScalar;
+  $in?: FilterScalar[];
+  $nin?: FilterScalar[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+};
+
+/** Pinecone-style metadata filter: field -> value | FieldFilter, plus $and/$or. */
+export type VectorFilter = {
+  $and?: VectorFilter[];
+  $or?: VectorFilter[];
+  [field: string]: FilterScalar | FieldFilter | VectorFilter[] | undefined;
+};
+
+export type VectorMatch = { id: string; score?: number; metadata?: VectorMetadata };
+
+export type QueryOptions = { vector: number[]; topK: number; filter?: VectorFilter; includeMetadata?: boolean };
+
+/** `prefix` narrows to ids starting with it, e.g. `chunk:<messageId>:`. */
+export type ListOptions = { prefix?: string; filter?: VectorFilter; limit?: number };
+
+export type UpsertReport = {
+  attempted: number;
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+  batches: number; // requests that succeeded
+  retries: number;
+};
+
+export interface VectorStore {
+  readonly kind: "pinecone" | "local";
+  upsert(namespace: string, vectors: VectorRecord[]): Promise<UpsertReport>;
+  query(namespace: string, opts: QueryOptions): Promise<VectorMatch[]>;
+  delete(namespace: string, ids: string[]): Promise<void>;
+  /** Merge `metadata` into an existing record's metadata (values untouched). Unknown ids are ignored. */
+  update(namespace: string, id: string, metadata: VectorMetadata): Promise<void>;
+  /** Drop every record in the namespace. Returns how many were removed (as counted just before). */
+  deleteNamespace(namespace: string): Promise<number>;
+  /** Records matching the prefix and filter (metadata only, no scores). */
+  list(namespace: string, opts?: ListOptions): Promise<VectorMatch[]>;
+  count(namespace: string, filter?: VectorFilter): Promise<number>;
+}
+
+// --- Filter evaluation (same semantics as Pinecone; list-valued fields match if any element matches) ---
+
+function compare(a: unknown, b: unknown): number | null {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  // ISO dates and bucket keys are stored as strings and compare lexicographically
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function matchesOperator(value: unknown, op: string, arg: unknown): boolean {
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  switch (op) {
+    case "$eq": return values.some(v => v === arg);
+    case "$ne": return !values.some(v => v === arg);
+    case "$in": return Array.isArray(arg) && values.some(v => (arg as FilterScalar[]).includes(v as FilterScalar));
+    case "$nin": return !Array.isArray(arg) || !values.some(v => (arg as FilterScalar[]).includes(v as FilterScalar));
+    case "$exists": return (value !== undefined && value !== null) === Boolean(arg);
+    case "$gt": return values.some(v => (compare(v, arg) ?? NaN) > 0);
+    case "$gte": return values.some(v => (compare(v, arg) ?? NaN) >= 0);
+    case "$lt": return values.some(v => (compare(v, arg) ?? NaN) < 0);
+    case "$lte": return values.some(v => (compare(v, arg) ?? NaN) <= 0);
+    default: throw new Error(`Unsupported filter operator ${op}`);
+  }
+}
+
+function isFieldFilter(cond: VectorFilter[string]): cond is FieldFilter {
+  return cond !== null && typeof cond === "object" && !Array.isArray(cond);
+}
+
+export function matchesFilter(metadata: VectorMetadata | undefined, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  const md: Record<string, unknown> = metadata || {};
+  if (filter.$and && !filter.$and.every(f => matchesFilter(metadata, f))) return false;
+  if (filter.$or && !filter.$or.some(f => matchesFilter(metadata, f))) return false;
+  for (const [key, cond] of Object.entries(filter)) {
+    if (key === "$and" || key === "$or" || cond === undefined) continue;
+    if (isFieldFilter(cond)) {
+      for (const [op, arg] of Object.entries(cond)) {
+        if (!matchesOperator(md[key], op, arg)) return false;
+      }
+    } else if (!matchesOperator(md[key], "$eq", cond)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// --- Pinecone ---
+
+const pineconeStore: VectorStore = {
+  kind: "pinecone",
+  upsert: (ns, vectors) => pinecone.upsertVectors(ns, vectors),
+  query: (ns, opts) => pinecone.queryVectors(ns, opts),
+  delete: (ns, ids) => pinecone.deleteVectors(ns, ids),
+  update: (ns, id, metadata) => pinecone.updateVectorMetadata(ns, id, metadata),
+  deleteNamespace: (ns) => pinecone.deleteNamespace(ns),
+  list: (ns, opts = {}) => listPinecone(ns, opts),
+  count: async (ns, filter) => (filter ? (await listPinecone(ns, { filter })).length : pinecone.countVectors(ns)),
+};
+
+// Pinecone has no filter-only scan: page through the ids (narrowed by prefix), fetch their metadata and filter here
+async function listPinecone(ns: string, opts: ListOptions): Promise<VectorMatch[]> {
+  const limit = opts.limit ?? Infinity;
+  const ids = await pinecone.listVectorIds(ns, opts.prefix, opts.filter ? Infinity : limit);
+  const matches = await pinecone.fetchVectorMetadata(ns, ids);
+  return matches.filter(m => matchesFilter(m.metadata, opts.filter)).slice(0, limit);
+}
+
+// --- Local (DATA_DIR/vectors/<namespace>.jsonl) ---
+
+type LogEntry =
+  | { op: "put"; id: string; values: number[]; metadata?: VectorMetadata }
+  | { op: "del"; id: string };
+
+type StoredVector = { values: number[]; norm: number; metadata?: VectorMetadata };
+
+type LoadedNamespace = { size: number; mtimeMs: number; lines: number; records: Map<string, StoredVector> };
+
+const loaded = new Map<string, LoadedNamespace>();
+const nsLocks = new Map<string, Promise<unknown>>();
+
+function namespaceFile(ns: string) {
+  return dataPath("vectors", `${encodeURIComponent(ns)}.jsonl`);
+}
+
+function norm(values: number[]): number {
+  let sum = 0;
+  for (const v of values) sum += v * v;
+  return Math.sqrt(sum);
+}
+
+// Serialize writers per namespace; readers see whatever the last completed write left on disk
+async function withNamespaceLock<T>(ns: string, fn: () => Promise<T>): Promise<T> {
+  const prev = nsLocks.get(ns) ?? Promise.resolve();
+  const next = prev.catch(() => {}).then(fn);
+  nsLocks.set(ns, next);
+  try {
+    return await next;
+  } finally {
+    if (nsLocks.get(ns) === next) nsLocks.delete(ns);
+  }
+}
+
+// Reload when another process (e.g. the HTTP host vs. the queue worker) has appended since our last read
+async function loadNamespace(ns: string): Promise<LoadedNamespace> {
+  const file = namespaceFile(ns);
+  const stat = await fs.stat(file).catch(() => null);
+  if (!stat) {
+    const empty = { size: 0, mtimeMs: 0, lines: 0, records: new Map<string, StoredVector>() };
+    loaded.set(ns, empty);
+    return empty;
+  }
+  const cached = loaded.get(ns);
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) return cached;
+
+  const records = new Map<string, StoredVector>();
+  let lines = 0;
+  for (const line of (await fs.readFile(file, "utf8")).split("\n")) {
+    if (!line.trim()) continue;
+    let entry: LogEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; // torn final line from an interrupted append
+    }
+    lines++;
+    if (entry.op === "put") records.set(entry.id, { values: entry.values, norm: norm(entry.values), metadata: entry.metadata });
+    else records.delete(entry.id);
+  }
+  const state = { size: stat.size, mtimeMs: stat.mtimeMs, lines, records };
+  loaded.set(ns, state);
+  return state;
+}
+
+async function appendEntries(ns: string, state: LoadedNamespace, entries: LogEntry[]): Promise<void> {
+  const file = namespaceFile(ns);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, entries.map(e => JSON.stringify(e)).join("\n") + "\n", "utf8");
+  state.lines += entries.length;
+
+  // Compact once superseded puts and deletes outnumber live records
+  if (state.lines > 2 * state.records.size + 1000) {
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    const live = Array.from(state.records, ([id, r]) => JSON.stringify({ op: "put", id, values: r.values, metadata: r.metadata }));
+    await fs.writeFile(tmp, live.length ? live.join("\n") + "\n" : "", "utf8");
+    await fs.rename(tmp, file);
+    state.lines = live.length;
+  }
+
+  const stat = await fs.stat(file);
+  state.size = stat.size;
+  state.mtimeMs = stat.mtimeMs;
+}
+
+function validateVector(v: VectorRecord, dimension: number | undefined): string | null {
+  if (!v.id) return "missing id";
+  if (!Array.isArray(v.values) || !v.values.length) return "missing values";
+  if (!v.values.every(x => Number.isFinite(x))) return "values must be finite numbers";
+  if (dimension !== undefined && v.values.length !== dimension) {
+    return `vector dimension ${v.values.length} does not match the namespace dimension ${dimension}`;
+  }
+  return null;
+}
+
+const localStore: VectorStore = {
+  kind: "local",
+
+  upsert: (ns, vectors) =>
+    withNamespaceLock(ns, async () => {
+      const report: UpsertReport = { attempted: vectors.length, succeeded: [], failed: [], batches: 0, retries: 0 };
+      if (!vectors.length) return report;
+      const state = await loadNamespace(ns);
+      let dimension = state.records.values().next().value?.values.length as number | undefined;
+      const entries: LogEntry[] = [];
+      for (const v of vectors) {
+        const error = validateVector(v, dimension);
+        if (error) {
+          report.failed.push({ id: v.id, error });
+          continue;
+        }
+        dimension ??= v.values.length;
+        entries.push({ op: "put", id: v.id, values: v.values, metadata: v.metadata });
+        state.records.set(v.id, { values: v.values, norm: norm(v.values), metadata: v.metadata });
+        report.succeeded.push(v.id);
+      }
+      if (entries.length) {
+        await appendEntries(ns, state, entries);
+        report.batches = 1;
+      }
+      return report;
+    }),
+
+  query: async (ns, opts) => {
+    const { records } = await loadNamespace(ns);
+    const qNorm = norm(opts.vector);
+    const scored: VectorMatch[] = [];
+    for (const [id, r] of records) {
+      if (!matchesFilter(r.metadata, opts.filter)) continue;
+      if (r.values.length !== opts.vector.length) continue;
+      let dot = 0;
+      for (let i = 0; i < r.values.length; i++) dot += r.values[i] * opts.vector[i];
+      const score = qNorm && r.norm ? dot / (qNorm * r.norm) : 0;
+      scored.push({ id, score, metadata: opts.includeMetadata === false ? undefined : r.metadata });
+    }
+    scored.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    return scored.slice(0, Math.min(opts.topK, 10000));
+  },
+
+  delete: (ns, ids) =>
+    withNamespaceLock(ns, async () => {
+      const state = await loadNamespace(ns);
+      const present = ids.filter(id => state.records.has(id));
+      if (!present.length) return;
+      for (const id of present) state.records.delete(id);
+      await appendEntries(ns, state, present.map(id => ({ op: "del" as const, id })));
+    }),
+
+  update: (ns, id, metadata) =>
+    withNamespaceLock(ns, async () => {
+      const state = await loadNamespace(ns);
+      const cur = state.records.get(id);
+      if (!cur) return;
+      const next = { ...cur, metadata: { ...cur.metadata, ...metadata } };
+      state.records.set(id, next);
+      await appendEntries(ns, state, [{ op: "put", id, values: next.values, metadata: next.metadata }]);
+    }),
+
+  deleteNamespace: (ns) =>
+    withNamespaceLock(ns, async () => {
+      const { records } = await loadNamespace(ns);
+      const count = records.size;
+      await fs.rm(namespaceFile(ns), { force: true });
+      loaded.delete(ns);
+      return count;
+    }),
+
+  list: async (ns, opts = {}) => {
+    const { records } = await loadNamespace(ns);
+    const out: VectorMatch[] = [];
+    const limit = opts.limit ?? Infinity;
+    for (const [id, r] of records) {
+      if (out.length >= limit) break;
+      if (opts.prefix && !id.startsWith(opts.prefix)) continue;
+      if (matchesFilter(r.metadata, opts.filter)) out.push({ id, metadata: r.metadata });
+    }
+    return out;
+  },
+
+  count: async (ns, filter) => {
+    const { records } = await loadNamespace(ns);
+    if (!filter) return records.size;
+    let n = 0;
+    for (const r of records.values()) if (matchesFilter(r.metadata, filter)) n++;
+    return n;
+  },
+};
+
+let store: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (store) return store;
+  const kind = (process.env.VECTOR_STORE || "pinecone").toLowerCase();
+  if (kind === "local") store = localStore;
+  else if (kind === "pinecone") store = pineconeStore;
+  else throw new Error(`Unknown VECTOR_STORE "${kind}" (expected pinecone or local)`);
+  return store;
+}
+
+// --- Result shaping ---
+
+export type ChunkHit = { index: number; start: number; end: number; score?: number; snippet: string };
+
+/**
+ * Fold `message_chunk` hits into their parent `msg:<id>` match (best score wins) and attach
+ * the matching chunks, so callers see one result per message. Order follows the best score.
+ */
+export function collapseChunkMatches<M extends VectorMatch>(matches: M[]): (M & { matched_chunks?: ChunkHit[] })[] {
+  const byParent = new Map<string, M & { matched_chunks?: ChunkHit[] }>();
+  const order: string[] = [];
+  for (const m of matches) {
+    const md: VectorMetadata = m.metadata || {};
+    const isChunk = md.type === "message_chunk";
+    const key = isChunk && md.message_id ? `msg:${md.message_id}` : m.id;
+    let entry = byParent.get(key);
+    if (!entry) {
+      entry = isChunk
+        ? { ...m, id: key, metadata: { ...md, type: "message", chunk_index: undefined, chunk_start: undefined, chunk_end: undefined } }
+        : { ...m };
+      byParent.set(key, entry);
+      order.push(key);
+    } else if (!isChunk) {
+      // Parent arrived after one of its chunks: prefer its own metadata, keep the better score
+      entry = { ...m, score: Math.max(m.score ?? 0, entry.score ?? 0), matched_chunks: entry.matched_chunks };
+      byParent.set(key, entry);
+    } else {
+      entry.score = Math.max(entry.score ?? 0, m.score ?? 0);
+    }
+    if (isChunk) {
+      (entry.matched_chunks ||= []).push({
+        index: Number(md.chunk_index ?? 0),
+        start: Number(md.chunk_start ?? 0),
+        end: Number(md.chunk_end ?? 0),
+        score: m.score,
+        snippet: String(md.snippet ?? ""),
+      });
+    }
+  }
+  return order.map(k => byParent.get(k)!).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
@@ -0,0 +1,59 @@
+import zlib from "node:zlib";
+
+// Minimal ZIP reader for OOXML attachments (central directory, stored/deflate entries; no ZIP64/encryption)
+
+export type ZipArchive = {
+  names: string[];
+  read(name: string): Buffer | null;
+};
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+// Inflated size cap per entry: a 10 MB attachment should never need more, and it stops zip bombs
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+type Entry = { method: number; compSize: number; localOffset: number };
+
+function findEocd(buf: Buffer): number {
+  const min = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= min; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIG) return i;
+  }
+  return -1;
+}
+
+/** Open a ZIP buffer. Throws if the buffer has no readable central directory. */
+export function openZip(buf: Buffer): ZipArchive {
+  const eocd = findEocd(buf);
+  if (eocd < 0) throw new Error("Not a ZIP archive (no end of central directory)");
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+
+  const entries = new Map<string, Entry>();
+  for (let i = 0; i < count && p + 46 <= buf.length; i++) {
+    if (buf.readUInt32LE(p) !== CENTRAL_SIG) break;
+    const method = buf.readUInt16LE(p + 10);
+    const compSize = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+    entries.set(name, { method, compSize, localOffset });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read(name: string): Buffer | null {
+      const e = entries.get(name);
+      if (!e || e.localOffset + 30 > buf.length || buf.readUInt32LE(e.localOffset) !== LOCAL_SIG) return null;
+      const start = e.localOffset + 30 + buf.readUInt16LE(e.localOffset + 26) + buf.readUInt16LE(e.localOffset + 28);
+      const data = buf.subarray(start, start + e.compSize);
+      if (e.method === 0) return data;
+      if (e.method === 8) return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+      return null;
+    },
+  };
+}
@@ -6,7 +6,7 @@ async function main() {
   const max = Number(process.env.MAX || 50);
 
   const sinceEpoch = Math.floor(Date.now() / 1000) - months * 30 * 24 * 3600;
-  const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0 };
+  const job: BackfillJob = { grantId, sinceEpoch, max, processed: 0, attempt: 0, kind: "backfill" };
   console.log(`[SMOKE] Enqueue backfill grant=${grantId} months=${months} max=${max}`);
   await enqueueBackfill(job);
   console.log(`[SMOKE] Enqueued initial backfill job`);
@@ -17,7 +17,7 @@ async function main() {
 
   // Enqueue delta job
   const max = Number(process.env.MAX || 50);
-  const job: BackfillJob = { grantId, sinceEpoch: cp, max, processed: 0, attempt: 0 };
+  const job: BackfillJob = { grantId, sinceEpoch: cp, max, processed: 0, attempt: 0, kind: "delta" };
   console.log(`[SMOKE] Enqueue delta grant=${grantId} since=${cp} max=${max}`);
   await enqueueBackfill(job);
   console.log(`[SMOKE] Enqueued delta job`);
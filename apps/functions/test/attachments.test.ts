@@ -0,0 +1,42 @@
+import { dataFile } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import {
+  countAttachmentMessages,
+  getAttachmentBlob,
+  removeMessageAttachments,
+  saveAttachment,
+  updateAttachmentBlob,
+} from "../shared/storage";
+
+const G = "g-att";
+
+// What processMessageAttachments does per attachment: store the bytes and record where they appeared
+async function receive(messageId: string, attId: string, filename: string, content: Buffer): Promise<string> {
+  const hash = await saveAttachment(G, messageId, attId, filename, content, "image/png");
+  const seenAt = new Date().toISOString();
+  await updateAttachmentBlob(G, hash, cur => ({
+    ...(cur ?? { hash, size: content.length, createdAt: seenAt, occurrences: [] }),
+    occurrences: [...(cur?.occurrences ?? []), { messageId, attId, filename, seenAt }],
+  }));
+  return hash;
+}
+
+test("attachments with the same filename in one message keep separate pointers and are released on delete", async () => {
+  const logo = await receive("m1", "a1", "image.png", Buffer.from("logo bytes"));
+  const chart = await receive("m1", "a2", "image.png", Buffer.from("chart bytes"));
+  await receive("m2", "b1", "logo.png", Buffer.from("logo bytes"));
+  assert.deepEqual(fs.readdirSync(dataFile("grants", G, "attachments", "m1")).sort(), ["a1.meta.json", "a2.meta.json"]);
+  assert.equal(await countAttachmentMessages(G, logo), 2);
+
+  assert.deepEqual(await removeMessageAttachments(G, "m1"), { files: 2, blobsDeleted: 1 });
+  // The chart only appeared in m1; the logo is still referenced by m2
+  assert.equal(await getAttachmentBlob(G, chart), null);
+  assert.equal(fs.existsSync(dataFile("grants", G, "blobs", chart)), false);
+  assert.deepEqual((await getAttachmentBlob(G, logo))?.occurrences.map(o => o.messageId), ["m2"]);
+  assert.equal(await countAttachmentMessages(G, logo), 1);
+
+  assert.deepEqual(await removeMessageAttachments(G, "m2"), { files: 1, blobsDeleted: 1 });
+  assert.deepEqual(fs.readdirSync(dataFile("grants", G, "blobs")), []);
+});
@@ -0,0 +1,178 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeTextBuffer,
+  extractCsvText,
+  extractDocxText,
+  extractHtmlText,
+  extractIcsText,
+  extractPlainText,
+  extractPptxText,
+  extractXlsxText,
+  parseCsv,
+  parseIcs,
+} from "../shared/docText";
+import { buildZip } from "./fixtures";
+
+const CORE = `<?xml version="1.0"?><cp:coreProperties xmlns:cp="x" xmlns:dc="y"><dc:title>Q3 &amp; Q4 plan</dc:title><dc:creator>Dana Reyes</dc:creator></cp:coreProperties>`;
+
+test("text buffers honour BOMs and fall back to latin1 for invalid UTF-8", () => {
+  assert.equal(decodeTextBuffer(Buffer.from("﻿café", "utf8")), "café");
+  assert.equal(decodeTextBuffer(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("naïve", "utf16le")])), "naïve");
+  assert.equal(decodeTextBuffer(Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from("naïve", "utf16le").swap16()])), "naïve");
+  assert.equal(decodeTextBuffer(Buffer.from("caf\xe9 cr\xe8me", "latin1")), "café crème");
+});
+
+test("plain text and HTML attachments are tidied", () => {
+  assert.equal(extractPlainText(Buffer.from("line one\r\n\r\n\r\n\r\nline two\r\n")), "line one\n\nline two");
+  assert.equal(extractHtmlText(Buffer.from("<html><body><h1>Agenda</h1><p>Kickoff&nbsp;at 10</p></body></html>")), "Agenda\n\nKickoff at 10");
+});
+
+test("CSV parsing handles quotes, doubled quotes, embedded newlines and CRLF", () => {
+  assert.deepEqual(parseCsv('name,note\r\n"Lee, Sam","said ""hi""\nthen left"\r\nAna,ok'), [
+    ["name", "note"],
+    ["Lee, Sam", 'said "hi"\nthen left'],
+    ["Ana", "ok"],
+  ]);
+});
+
+test("the CSV delimiter is detected from the header row", () => {
+  assert.deepEqual(parseCsv("a;b;c\n1;2;3"), [["a", "b", "c"], ["1", "2", "3"]]);
+  assert.deepEqual(parseCsv("a\tb\n1\t2"), [["a", "b"], ["1", "2"]]);
+  assert.deepEqual(parseCsv('"x,y";z\n1;2'), [["x,y", "z"], ["1", "2"]]);
+});
+
+test("CSV text lists the columns and row count, skipping empty rows", () => {
+  assert.equal(
+    extractCsvText(Buffer.from("﻿SKU,Qty\nA-1,3\n,\nB-2,  5 \n")),
+    "Columns: SKU | Qty\nRows: 2\nA-1 | 3\nB-2 | 5"
+  );
+});
+
+test("DOCX text includes core properties, table cells and footnotes", () => {
+  const doc = [
+    `<w:document><w:body>`,
+    `<w:p><w:r><w:t>Hello</w:t></w:r><w:r><w:t xml:space="preserve"> world</w:t></w:r></w:p>`,
+    `<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Item</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Cost</w:t></w:r></w:p></w:tc></w:tr></w:tbl>`,
+    `<w:p><w:r><w:t>Fish &amp; chips</w:t><w:tab/><w:t>£4</w:t></w:r></w:p>`,
+    `</w:body></w:document>`,
+  ].join("");
+  const buf = buildZip([
+    { name: "docProps/core.xml", data: CORE },
+    { name: "word/document.xml", data: doc },
+    { name: "word/footnotes.xml", data: `<w:footnotes><w:footnote><w:p><w:r><w:t>See clause 7.</w:t></w:r></w:p></w:footnote></w:footnotes>` },
+  ]);
+  assert.equal(extractDocxText(buf), "Title: Q3 & Q4 plan\nAuthor: Dana Reyes\nHello world\nItem | Cost\nFish & chips £4\n\nSee clause 7.");
+});
+
+test("a DOCX without a document part is rejected", () => {
+  assert.throws(() => extractDocxText(buildZip([{ name: "docProps/core.xml", data: CORE }])), /word\/document\.xml/);
+});
+
+test("PPTX slides come out in slide-number order", () => {
+  const slide = (text: string) => `<p:sld><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:sld>`;
+  const buf = buildZip([
+    { name: "ppt/slides/slide10.xml", data: slide("Wrap-up") },
+    { name: "ppt/slides/slide2.xml", data: slide("Roadmap") },
+    { name: "ppt/slides/slide1.xml", data: slide("Welcome") },
+    { name: "ppt/slides/_rels/slide1.xml.rels", data: "<Relationships/>" },
+  ]);
+  assert.equal(extractPptxText(buf), "[Slide 1]\nWelcome\n\n[Slide 2]\nRoadmap\n\n[Slide 10]\nWrap-up");
+});
+
+test("XLSX sheets resolve shared strings, inline strings, booleans and sparse cells", () => {
+  const buf = buildZip([
+    {
+      name: "xl/workbook.xml",
+      data: `<workbook><sheets><sheet name="Budget" sheetId="1" r:id="rId1"/><sheet name="Empty" sheetId="2" r:id="rId2"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>`,
+    },
+    { name: "xl/sharedStrings.xml", data: `<sst><si><t>Team</t></si><si><r><t>Spend</t></r><rPh><t>スペンド</t></rPh></si><si><t>Ops</t></si></sst>` },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: [
+        `<worksheet><sheetData>`,
+        `<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>`,
+        `<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="b"><v>1</v></c><c r="C2"><v>1250.5</v></c></row>`,
+        `<row r="3"><c r="A3" t="inlineStr"><is><t>R&amp;D</t></is></c><c r="C3"><v>900</v></c></row>`,
+        `</sheetData></worksheet>`,
+      ].join(""),
+    },
+    { name: "xl/worksheets/sheet2.xml", data: `<worksheet><sheetData/></worksheet>` },
+  ]);
+  assert.equal(extractXlsxText(buf), "[Sheet: Budget]\nColumns: Team |  | Spend\nRows: 2\nOps | TRUE | 1250.5\nR&D |  | 900");
+});
+
+const INVITE = [
+  "BEGIN:VCALENDAR",
+  "METHOD:REQUEST",
+  "BEGIN:VEVENT",
+  "UID:evt-1@example.com",
+  "SUMMARY:Design review\\, round 2",
+  "DTSTART:20261020T150000Z",
+  "DTEND:20261020T160000Z",
+  "LOCATION:Room 4",
+  'ORGANIZER;CN="Kim, Jo":mailto:jo@example.com',
+  "ATTENDEE;CN=Pat;PARTSTAT=ACCEPTED:mailto:pat@example.com",
+  "ATTENDEE:mailto:lee@example.com",
+  "DESCRIPTION:Bring the mockups.\\nDial-in on the wi",
+  " ki.",
+  "BEGIN:VALARM",
+  "DESCRIPTION:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Offsite",
+  "DTSTART;VALUE=DATE:20261102",
+  "RRULE:FREQ=YEARLY",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+test("iCalendar events are parsed with unfolding, escapes, parameters and nested alarms ignored", () => {
+  const cal = parseIcs(INVITE);
+  assert.equal(cal.method, "REQUEST");
+  assert.equal(cal.events.length, 2);
+  assert.deepEqual(cal.events[0], {
+    summary: "Design review, round 2",
+    start: "2026-10-20T15:00:00Z",
+    end: "2026-10-20T16:00:00Z",
+    allDay: false,
+    location: "Room 4",
+    organizer: "Kim, Jo <jo@example.com>",
+    attendees: ["Pat <pat@example.com> (accepted)", "lee@example.com"],
+    description: "Bring the mockups.\nDial-in on the wiki.",
+    uid: "evt-1@example.com",
+  });
+  assert.deepEqual(cal.events[1], { summary: "Offsite", start: "2026-11-02", allDay: true, attendees: [], rrule: "FREQ=YEARLY" });
+});
+
+test("floating times keep their TZID", () => {
+  const cal = parseIcs("BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;TZID=Europe/Paris:20261020T0930\nEND:VEVENT\nEND:VCALENDAR");
+  assert.equal(cal.events[0].start, "2026-10-20T09:30:00 (Europe/Paris)");
+});
+
+test("calendar text names the invite kind and lists the event details", () => {
+  assert.equal(
+    extractIcsText(Buffer.from(INVITE)),
+    [
+      "Calendar invite: Design review, round 2",
+      "When: 2026-10-20T15:00:00Z – 2026-10-20T16:00:00Z",
+      "Where: Room 4",
+      "Organizer: Kim, Jo <jo@example.com>",
+      "Attendees: Pat <pat@example.com> (accepted), lee@example.com",
+      "",
+      "Bring the mockups.",
+      "Dial-in on the wiki.",
+      "",
+      "Calendar invite: Offsite",
+      "When: 2026-11-02 (all day)",
+      "Repeats: FREQ=YEARLY",
+    ].join("\n")
+  );
+  const cancel = INVITE.replace("METHOD:REQUEST", "METHOD:CANCEL");
+  assert.match(extractIcsText(Buffer.from(cancel)), /^Calendar cancellation: Design review, round 2/);
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeEntities, normalizeEmailBody } from "../shared/emailText";
+
+test("decodeEntities handles named, decimal and hex entities and leaves unknown ones alone", () => {
+  assert.equal(decodeEntities("Fish &amp; chips &#8212; &#x2603; &bogus; &#0;"), "Fish & chips — ☃ &bogus; &#0;");
+  assert.equal(decodeEntities("a&nbsp;b&shy;c"), "a bc");
+});
+
+test("empty and whitespace-only bodies normalize to empty parts", () => {
+  for (const raw of [null, undefined, "", "   \n\n  "]) {
+    assert.deepEqual(normalizeEmailBody(raw), { text: "", newText: "", quotedText: "", signature: "", disclaimer: "" });
+  }
+});
+
+test("HTML is flattened with paragraphs, list items and link targets kept, and style/script dropped", () => {
+  const html = [
+    "<html><head><style>p { color: red }</style></head><body>",
+    "<p>Hello&nbsp;team,</p><p>See <a href=\"https://example.com/report\">the report</a>.</p>",
+    "<ul><li>First</li><li>Second</li></ul>",
+    "<script>alert(1)</script><!-- hidden -->",
+    "</body></html>",
+  ].join("");
+  const { text, newText } = normalizeEmailBody(html);
+  assert.equal(text, "Hello team,\n\nSee the report (https://example.com/report).\n\n- First\n\n- Second");
+  assert.equal(newText, text);
+  assert.doesNotMatch(text, /color|alert|hidden/);
+});
+
+test("a link whose label is its URL, and mailto links, are not repeated", () => {
+  const { text } = normalizeEmailBody('<p><a href="https://a.example/">https://a.example/</a> or <a href="mailto:x@a.example">x@a.example</a></p>');
+  assert.equal(text, "https://a.example/ or x@a.example");
+});
+
+test("an 'On ... wrote:' reply header starts the quoted history", () => {
+  const raw = "Sounds good, see you then.\n\nOn Mon, Mar 3, 2025 at 9:00 AM Ana <ana@example.com> wrote:\n> Can we meet at 10?\n> Ana";
+  const parts = normalizeEmailBody(raw);
+  assert.equal(parts.newText, "Sounds good, see you then.");
+  assert.match(parts.quotedText, /^On Mon, Mar 3, 2025.*wrote:\n> Can we meet at 10\?/);
+});
+
+test("a reply header wrapped over two lines is still found", () => {
+  const raw = "Thanks!\n\nOn Tue, 4 Mar 2025 at 10:12, Ana Lopez <ana@example.com>\nwrote:\n> Draft attached";
+  assert.equal(normalizeEmailBody(raw).newText, "Thanks!");
+});
+
+test("an Outlook From/Sent/To/Subject block starts the quoted history", () => {
+  const raw = "Approved.\n\nFrom: Ben Ode <ben@example.com>\nSent: Tuesday, March 4, 2025 3:15 PM\nTo: Ops <ops@example.com>\nSubject: Budget\n\nPlease approve the budget.";
+  const parts = normalizeEmailBody(raw);
+  assert.equal(parts.newText, "Approved.");
+  assert.match(parts.quotedText, /^From: Ben Ode/);
+  assert.match(parts.quotedText, /Please approve the budget\.$/);
+});
+
+test("HTML blockquotes become '>' quoted lines", () => {
+  const parts = normalizeEmailBody("<div>Yes.</div><blockquote><div>Is Friday ok?</div></blockquote>");
+  assert.equal(parts.newText, "Yes.");
+  assert.equal(parts.quotedText, "> Is Friday ok?");
+});
+
+test("inline '>' quotes followed by a long answer stay in the new text", () => {
+  const answer = "Here is the full breakdown you asked for. ".repeat(12).trim();
+  const raw = `> What are the numbers?\n\n${answer}`;
+  const parts = normalizeEmailBody(raw);
+  assert.equal(parts.quotedText, "");
+  assert.equal(parts.newText, raw);
+});
+
+test("signatures after a '--' delimiter or a mobile footer are split off", () => {
+  const dashed = normalizeEmailBody("Shipping today.\n--\nCarla Diaz\nHead of Ops");
+  assert.equal(dashed.newText, "Shipping today.");
+  assert.equal(dashed.signature, "--\nCarla Diaz\nHead of Ops");
+
+  const mobile = normalizeEmailBody("On my way.\n\nSent from my iPhone");
+  assert.equal(mobile.newText, "On my way.");
+  assert.equal(mobile.signature, "Sent from my iPhone");
+});
+
+test("a legal footer in the back half is split off as the disclaimer", () => {
+  const body = "The contract is attached for your review. Let me know if the dates work for you, and whether legal needs another pass before Friday.";
+  const footer = "CONFIDENTIALITY NOTICE: This email is confidential and intended solely for the addressee.";
+  const parts = normalizeEmailBody(`${body}\n\n${footer}`);
+  assert.equal(parts.newText, body);
+  assert.equal(parts.disclaimer, footer);
+});
+
+test("a disclaimer-like sentence at the top of a message is not treated as a footer", () => {
+  const raw = "This message is confidential: the merger closes Friday.\n\nMore details below once legal signs off on the final wording of the announcement.";
+  const parts = normalizeEmailBody(raw);
+  assert.equal(parts.disclaimer, "");
+  assert.equal(parts.newText, raw);
+});
+
+test("forwarded messages stay in the new text, headers included", () => {
+  const gmail = "FYI\n\n---------- Forwarded message ---------\nFrom: Vendor <v@example.com>\nDate: Mon, Mar 3, 2025\nSubject: Invoice\nTo: me@example.com\n\nInvoice #42 is due.";
+  const apple = "FYI\n\nBegin forwarded message:\n\nFrom: Vendor <v@example.com>\nSubject: Invoice\nDate: Mon, Mar 3, 2025\nTo: me@example.com\n\nInvoice #42 is due.";
+  for (const raw of [gmail, apple]) {
+    const parts = normalizeEmailBody(raw);
+    assert.equal(parts.quotedText, "");
+    assert.equal(parts.newText, raw);
+  }
+});
@@ -0,0 +1,156 @@
+import { dataFile, runInChild } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { newDataKey, open, seal, sealedKeyId } from "../shared/encryption";
+import {
+  appendDayNote,
+  loadDayNotes,
+  loadMessageLedger,
+  readGrantSecret,
+  rewrapGrantSecrets,
+  rotateGrantKeys,
+  saveCleanText,
+  saveMessageLedger,
+} from "../shared/storage";
+
+const K1 = crypto.randomBytes(32).toString("base64");
+const K2 = crypto.randomBytes(32).toString("hex");
+
+// This process plays the deployment after a master key change: k2 is current and k1 is still accepted.
+// The provider is created on first use, so setting the env here (after the imports) is early enough.
+process.env.STORAGE_MASTER_KEY = K2;
+process.env.STORAGE_MASTER_KEY_ID = "k2";
+process.env.STORAGE_MASTER_KEYS_PREVIOUS = `k1:${K1}`;
+
+const ONLY_K1 = { STORAGE_MASTER_KEY: K1, STORAGE_MASTER_KEY_ID: "k1", STORAGE_MASTER_KEYS_PREVIOUS: null };
+const ONLY_K2 = { STORAGE_MASTER_KEY: K2, STORAGE_MASTER_KEY_ID: "k2", STORAGE_MASTER_KEYS_PREVIOUS: null };
+const NO_KEYS = { STORAGE_MASTER_KEY: null, STORAGE_MASTER_KEY_ID: null, STORAGE_MASTER_KEYS_PREVIOUS: null };
+
+const note = (messageId: string, excerpt: string) => ({ messageId, date_iso: "2026-10-19T09:00:00.000Z", excerpt });
+const dataKeyRecord = (grantId: string) =>
+  JSON.parse(fs.readFileSync(dataFile("grants", grantId, "keys", "data-keys.json"), "utf8")) as {
+    current: string;
+    keys: Record<string, { masterKeyId: string }>;
+    plaintextRemains?: boolean;
+  };
+const CTX = { grantId: "g1", storageKey: "grants/g1/messages/m1.txt" };
+
+test("seal/open round-trips and records the data key id", () => {
+  const { id, key } = newDataKey();
+  const plain = Buffer.from("Quarterly numbers: 42");
+  const sealed = seal(id, key, plain, CTX);
+  assert.equal(sealedKeyId(sealed), id);
+  assert.equal(sealed.indexOf(plain), -1);
+  assert.deepEqual(open(key, sealed, CTX), plain);
+  // Fresh IV per seal
+  assert.notDeepEqual(seal(id, key, plain, CTX), sealed);
+  assert.throws(() => sealedKeyId(plain), /Not a sealed buffer/);
+});
+
+test("opening with the wrong key or after tampering fails", () => {
+  const { id, key } = newDataKey();
+  const sealed = seal(id, key, Buffer.from("secret"), CTX);
+  assert.throws(() => open(newDataKey().key, sealed, CTX));
+  const tampered = Buffer.from(sealed);
+  tampered[tampered.length - 1] ^= 0x01;
+  assert.throws(() => open(key, tampered, CTX));
+});
+
+test("a sealed buffer only opens for the grant and storage key it was sealed for", () => {
+  const { id, key } = newDataKey();
+  const sealed = seal(id, key, Buffer.from("secret"), CTX);
+  assert.throws(() => open(key, sealed, { ...CTX, grantId: "g2" }));
+  assert.throws(() => open(key, sealed, { ...CTX, storageKey: "grants/g1/messages/m2.txt" }));
+});
+
+test("content areas are sealed on disk and read back; state files stay plaintext", async () => {
+  await saveCleanText("g-seal", "m1", "Meet at the harbour at noon");
+  const raw = fs.readFileSync(dataFile("grants", "g-seal", "messages", "m1.txt"));
+  assert.equal(sealedKeyId(raw), dataKeyRecord("g-seal").current);
+  assert.equal(raw.indexOf("harbour"), -1);
+
+  await appendDayNote("g-seal", "t1", "2026-10-19", note("m1", "Meet at the harbour"));
+  assert.deepEqual((await loadDayNotes("g-seal", "2026-10-19")).map(n => n.excerpt), ["Meet at the harbour"]);
+
+  await saveMessageLedger("g-seal", { m1: { hash: "h", day_key: "2026-10-19", processedAt: "2026-10-19T09:00:00.000Z" } });
+  assert.ok(JSON.parse(fs.readFileSync(dataFile("grants", "g-seal", "state", "ledger.json"), "utf8")).m1);
+  assert.equal((await loadMessageLedger("g-seal")).m1.hash, "h");
+
+  const record = dataKeyRecord("g-seal");
+  assert.deepEqual(Object.values(record.keys).map(k => k.masterKeyId), ["k2"]);
+  assert.equal(record.plaintextRemains, undefined);
+});
+
+test("a sealed file copied to another grant or storage key does not open", async () => {
+  const notes = (grantId: string, day: string) => dataFile("grants", grantId, "days", day, "notes.jsonl");
+  await appendDayNote("g-copy-a", "t1", "2026-10-18", note("m1", "grant A, first day"));
+  await appendDayNote("g-copy-a", "t1", "2026-10-19", note("m2", "grant A, second day"));
+  await appendDayNote("g-copy-b", "t1", "2026-10-18", note("m3", "grant B"));
+  fs.copyFileSync(notes("g-copy-a", "2026-10-18"), notes("g-copy-a", "2026-10-19"));
+  await assert.rejects(loadDayNotes("g-copy-a", "2026-10-19"));
+  fs.copyFileSync(notes("g-copy-a", "2026-10-18"), notes("g-copy-b", "2026-10-18"));
+  await assert.rejects(loadDayNotes("g-copy-b", "2026-10-18"));
+});
+
+test("files written before encryption was enabled stay readable", async () => {
+  runInChild(NO_KEYS, `await storage.appendDayNote("g-plain", "t1", "2026-10-18", ${JSON.stringify(note("m0", "old plaintext"))});`);
+  assert.match(fs.readFileSync(dataFile("grants", "g-plain", "days", "2026-10-18", "notes.jsonl"), "utf8"), /old plaintext/);
+  assert.deepEqual((await loadDayNotes("g-plain", "2026-10-18")).map(n => n.excerpt), ["old plaintext"]);
+
+  // The grant's first sealed write finds the older file and records that plaintext remains
+  await appendDayNote("g-plain", "t1", "2026-10-19", note("m1", "new and sealed"));
+  assert.equal(dataKeyRecord("g-plain").plaintextRemains, true);
+  assert.deepEqual((await loadDayNotes("g-plain", "2026-10-19")).map(n => n.excerpt), ["new and sealed"]);
+  assert.deepEqual((await loadDayNotes("g-plain", "2026-10-18")).map(n => n.excerpt), ["old plaintext"]);
+});
+
+test("rotation re-wraps data keys under the current master key so the previous one can be dropped", async () => {
+  // Written by a deployment that only knew k1, including a plaintext file from before encryption that happens
+  // to start like a sealed one
+  runInChild(NO_KEYS, `await storage.saveSummary("g-rot", "day", "2026-10-17", "EAE1 plaintext summary, long enough to hold a sealed header");`);
+  runInChild(
+    ONLY_K1,
+    `await storage.appendDayNote("g-rot", "t1", "2026-10-19", ${JSON.stringify(note("m1", "sealed under k1"))});
+     await storage.writeGrantSecret("g-rot.nylas", "nylas-api-key");`
+  );
+  assert.deepEqual(Object.values(dataKeyRecord("g-rot").keys).map(k => k.masterKeyId), ["k1"]);
+  const readDay = `console.log(JSON.stringify((await storage.loadDayNotes("g-rot", "2026-10-19")).map(n => n.excerpt)));`;
+  assert.throws(() => runInChild(ONLY_K2, readDay), /Master key "k1" is not configured/);
+
+  // Readable here through STORAGE_MASTER_KEYS_PREVIOUS
+  assert.deepEqual((await loadDayNotes("g-rot", "2026-10-19")).map(n => n.excerpt), ["sealed under k1"]);
+  assert.equal(await readGrantSecret("g-rot.nylas"), "nylas-api-key");
+
+  const report = await rotateGrantKeys("g-rot");
+  assert.deepEqual({ ...report }, { grantId: "g-rot", rewrapped: 1, dataKeyRotated: false, sealed: 1, resealed: 0 });
+  assert.ok(await rewrapGrantSecrets() >= 1);
+  assert.deepEqual(Object.values(dataKeyRecord("g-rot").keys).map(k => k.masterKeyId), ["k2"]);
+  assert.equal(sealedKeyId(fs.readFileSync(dataFile("grants", "g-rot", "summaries", "day", "2026-10-17.txt"))), dataKeyRecord("g-rot").current);
+  assert.equal(dataKeyRecord("g-rot").plaintextRemains, undefined);
+
+  // A deployment with only k2 now reads everything
+  assert.equal(runInChild(ONLY_K2, readDay).trim(), JSON.stringify(["sealed under k1"]));
+  assert.equal(runInChild(ONLY_K2, `console.log(await storage.readGrantSecret("g-rot.nylas"));`).trim(), "nylas-api-key");
+});
+
+test("rotating the data key re-encrypts content under a new key and keeps the old one", async () => {
+  await appendDayNote("g-dk", "t1", "2026-10-19", note("m1", "rotate me"));
+  const file = dataFile("grants", "g-dk", "days", "2026-10-19", "notes.jsonl");
+  const before = dataKeyRecord("g-dk").current;
+  assert.equal(sealedKeyId(fs.readFileSync(file)), before);
+
+  const report = await rotateGrantKeys("g-dk", { rotateDataKey: true });
+  assert.equal(report.dataKeyRotated, true);
+  assert.equal(report.resealed, 1);
+  const record = dataKeyRecord("g-dk");
+  assert.notEqual(record.current, before);
+  assert.deepEqual(Object.keys(record.keys).sort(), [before, record.current].sort());
+  assert.equal(sealedKeyId(fs.readFileSync(file)), record.current);
+  assert.deepEqual((await loadDayNotes("g-dk", "2026-10-19")).map(n => n.excerpt), ["rotate me"]);
+
+  // Nothing left to do on a second run
+  const again = await rotateGrantKeys("g-dk");
+  assert.equal(again.sealed + again.resealed, 0);
+});
@@ -0,0 +1,158 @@
+import { DATA_DIR } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { markGrantDeleted, markGrantExpired, purgeGrant, reactivateGrant } from "../shared/grantLifecycle";
+import { getGrant, registerGrant } from "../shared/grantRegistry";
+import {
+  addRedactionEntries,
+  appendDayNote,
+  getGrantLifecycle,
+  listKnownGrants,
+  loadDayNotes,
+  markDeltaPending,
+  markRollupsDirty,
+  readAiCache,
+  readGrantSecret,
+  recordFailedJob,
+  replaceThreadNote,
+  resetSyncStatus,
+  saveAttachment,
+  saveAttachmentPages,
+  saveCleanText,
+  saveMessageLedger,
+  saveSummary,
+  setCheckpoint,
+  setSyncControl,
+  updateAttachmentBlob,
+  writeAiCache,
+} from "../shared/storage";
+import { getVectorStore } from "../shared/vectorStore";
+
+// Both are read on first use; with a master key on, content on disk is sealed, so the marker checks below only
+// find plaintext copies (vector metadata, state files) and file names
+process.env.VECTOR_STORE = "local";
+process.env.STORAGE_MASTER_KEY = crypto.randomBytes(32).toString("base64");
+
+// Everything the pipeline stores for a grant, each tagged with `marker` where it holds text
+async function populateGrant(grantId: string, marker: string) {
+  await registerGrant({ grantId, email: `${grantId}@example.com`, apiKey: `key-${marker}` });
+  await saveCleanText(grantId, "m1", `body ${marker}`, `new ${marker}`);
+  const pdf = Buffer.from(`%PDF-1.4 ${marker}`);
+  const hash = await saveAttachment(grantId, "m1", "a1", "report.pdf", pdf, "application/pdf");
+  await updateAttachmentBlob(grantId, hash, () => ({
+    hash,
+    size: pdf.length,
+    createdAt: new Date().toISOString(),
+    analyzer: "pdf",
+    analysis: `analysis ${marker}`,
+    occurrences: [{ messageId: "m1", attId: "a1", filename: "report.pdf", seenAt: new Date().toISOString() }],
+  }));
+  await saveAttachmentPages(grantId, hash, { info: {}, encrypted: false, truncated: false, pageCount: 1, pages: [{ page: 1, text: `page ${marker}` }] });
+  const note = { messageId: "m1", date_iso: "2026-10-19T09:00:00.000Z", excerpt: `note ${marker}` };
+  await appendDayNote(grantId, "t1", "2026-10-19", note);
+  await replaceThreadNote(grantId, "t1", "m1", note);
+  await saveSummary(grantId, "day", "2026-10-19", `summary ${marker}`);
+  await saveMessageLedger(grantId, { m1: { hash: "h", day_key: "2026-10-19", thread_id: "t1", processedAt: new Date().toISOString() } });
+  await setCheckpoint(grantId, 1_790_000_000);
+  await resetSyncStatus(grantId, "backfill", "running", 1_780_000_000, 100);
+  await setSyncControl(grantId, { state: "active", updatedAt: Date.now() });
+  await recordFailedJob(grantId, { grantId, sinceEpoch: 1_780_000_000, max: 100, pageToken: "p2" }, `failed ${marker}`);
+  await markDeltaPending(grantId, 1_790_000_000, "m2", Date.now() + 60_000);
+  await markRollupsDirty(grantId, { days: ["2026-10-19"], weeks: [], months: [] }, Date.now() + 60_000);
+  await addRedactionEntries(grantId, { "[PHONE_0123456789]": { type: "phone", value: `555-${marker}`, firstSeen: new Date().toISOString() } });
+  await writeAiCache(grantId, "summary", crypto.createHash("sha256").update(marker).digest("hex"), { text: `cached ${marker}` });
+  await getVectorStore().upsert(grantId, [
+    { id: "msg:m1", values: [0.1, 0.2, 0.3], metadata: { type: "msg", snippet: `vector ${marker}` } },
+    { id: "chunk:m1:0", values: [0.3, 0.2, 0.1], metadata: { type: "chunk", snippet: `chunk ${marker}` } },
+  ]);
+  return { hash };
+}
+
+// Every file under DATA_DIR whose path or (plaintext) content mentions `needle`
+function filesMentioning(needle: string): string[] {
+  const hits: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (full.includes(needle) || fs.readFileSync(full).includes(needle)) hits.push(path.relative(DATA_DIR, full));
+    }
+  };
+  walk(DATA_DIR);
+  return hits;
+}
+
+test("a purge removes everything stored for the grant and leaves other grants alone", async () => {
+  await populateGrant("g-gone", "purge-marker-gone");
+  const kept = await populateGrant("g-kept", "purge-marker-kept");
+  assert.ok(filesMentioning("g-gone").length > 10);
+
+  const report = await purgeGrant("g-gone", "test");
+  assert.equal(report.vectors.deleted, 2);
+  assert.equal(report.registryRemoved, true);
+  for (const area of ["messages", "attachments", "blobs", "days", "threads", "summaries", "state", "redactions", "cache", "keys"]) {
+    assert.ok((report.storage.byArea[area] ?? 0) > 0, `nothing purged from ${area}`);
+  }
+
+  // Only the lifecycle mark (kept so queued jobs stop) still names the grant; no content survives anywhere
+  assert.deepEqual(filesMentioning("g-gone"), [path.join("lifecycle", "g-gone.json")]);
+  assert.deepEqual(filesMentioning("purge-marker-gone"), []);
+  assert.equal((await getGrantLifecycle("g-gone"))?.state, "deleted");
+  assert.equal(await getGrant("g-gone"), null);
+  assert.equal(await readGrantSecret("g-gone"), null);
+  assert.equal(await getVectorStore().count("g-gone"), 0);
+  assert.ok(!(await listKnownGrants()).includes("g-gone"));
+  assert.ok(!fs.existsSync(path.join(DATA_DIR, "grants", "g-gone")));
+
+  // The other grant is untouched
+  assert.deepEqual((await loadDayNotes("g-kept", "2026-10-19")).map(n => n.excerpt), ["note purge-marker-kept"]);
+  assert.equal(await getVectorStore().count("g-kept"), 2);
+  assert.equal(await readGrantSecret("g-kept"), "key-purge-marker-kept");
+  assert.deepEqual(await readAiCache("g-kept", "summary", crypto.createHash("sha256").update("purge-marker-kept").digest("hex")), {
+    text: "cached purge-marker-kept",
+  });
+  assert.ok(fs.existsSync(path.join(DATA_DIR, "grants", "g-kept", "blobs", kept.hash)));
+  assert.equal(await getGrantLifecycle("g-kept"), null);
+});
+
+test("purging again is safe and finds nothing left", async () => {
+  await populateGrant("g-twice", "purge-marker-twice");
+  await purgeGrant("g-twice", "first");
+  const again = await purgeGrant("g-twice", "second");
+  assert.equal(again.vectors.deleted, 0);
+  assert.equal(again.storage.objects, 0);
+  assert.equal(again.registryRemoved, false);
+  assert.deepEqual(filesMentioning("purge-marker-twice"), []);
+});
+
+test("a deleted grant keeps its data until purged and stays deleted", async () => {
+  await populateGrant("g-deleted", "purge-marker-deleted");
+  await markGrantDeleted("g-deleted", "grant.deleted");
+  assert.equal((await getGrantLifecycle("g-deleted"))?.state, "deleted");
+  assert.equal(await reactivateGrant("g-deleted"), null);
+  assert.equal((await getGrantLifecycle("g-deleted"))?.state, "deleted");
+  assert.equal(await getVectorStore().count("g-deleted"), 2);
+  assert.deepEqual((await loadDayNotes("g-deleted", "2026-10-19")).map(n => n.excerpt), ["note purge-marker-deleted"]);
+});
+
+test("an expired grant is reactivated by clearing its mark", async () => {
+  await markGrantExpired("g-expired", "grant.expired");
+  assert.equal((await getGrantLifecycle("g-expired"))?.state, "expired");
+  assert.equal((await reactivateGrant("g-expired"))?.state, "expired");
+  assert.equal(await getGrantLifecycle("g-expired"), null);
+  assert.equal(await reactivateGrant("g-expired"), null);
+});
+
+test("grant ids that are not a single plain path segment are rejected before anything is written or removed", async () => {
+  await populateGrant("g-safe", "purge-marker-safe");
+  const before = filesMentioning("g-safe").length;
+  for (const grantId of ["..", "../g-safe", "g-safe/..", "a b", ""]) {
+    await assert.rejects(purgeGrant(grantId, "test"), /Invalid grantId/);
+    await assert.rejects(registerGrant({ grantId: `${grantId}/x` }), /Invalid grantId/);
+  }
+  assert.equal(filesMentioning("g-safe").length, before);
+  assert.equal(await getVectorStore().count("g-safe"), 2);
+});
@@ -0,0 +1,105 @@
+import { dataFile } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type { InvocationContext } from "@azure/functions";
+import { handleRollupMessage } from "../functions/rollupWorker";
+import { deleteMessage } from "../shared/messageEvents";
+import { weekKeyFromDayKey } from "../shared/shard";
+import {
+  loadRollupState,
+  replaceDayNote,
+  replaceThreadNote,
+  saveMessageLedger,
+  saveRollupState,
+  saveSummary,
+  type DayNote,
+  type SummaryKind,
+} from "../shared/storage";
+import { getVectorStore } from "../shared/vectorStore";
+
+// Read on first use, so setting them after the imports is early enough
+process.env.VECTOR_STORE = "local";
+process.env.LLM_PROVIDER = "local";
+process.env.LOCAL_EMBED_DIM = "8";
+
+const G = "g-del";
+const ctx = { log() {}, warn() {}, error() {} } as unknown as InvocationContext;
+const summaryFile = (kind: SummaryKind, key: string) => dataFile("grants", G, "summaries", kind, `${key}.txt`);
+
+// m1 and m2 share a thread and an ISO week; m3 is alone in another week of the same month
+const MESSAGES = [
+  { id: "m1", thread: "t1", day: "2026-10-19", excerpt: "Wire the deposit for the lake house." },
+  { id: "m2", thread: "t1", day: "2026-10-20", excerpt: "Keys are under the blue pot." },
+  { id: "m3", thread: "t2", day: "2026-10-05", excerpt: "Dentist moved to Thursday." },
+];
+const W43 = weekKeyFromDayKey("2026-10-19");
+const W41 = weekKeyFromDayKey("2026-10-05");
+
+async function ingest() {
+  const ledger: Record<string, { hash: string; day_key: string; thread_id: string; processedAt: string }> = {};
+  for (const m of MESSAGES) {
+    const note: DayNote = { messageId: m.id, date_iso: `${m.day}T09:00:00.000Z`, subject: "Note", excerpt: m.excerpt };
+    await replaceDayNote(G, m.thread, m.day, m.id, note);
+    await replaceThreadNote(G, m.thread, m.id, note);
+    ledger[m.id] = { hash: m.id, day_key: m.day, thread_id: m.thread, processedAt: new Date().toISOString() };
+  }
+  await saveMessageLedger(G, ledger);
+  // Summaries as the backfill and a previous rollup left them, each mentioning every message it covered
+  const all = MESSAGES.map(m => m.excerpt).join(" ");
+  const buckets: [SummaryKind, string][] = [
+    ["thread", "t1"], ["thread", "t2"],
+    ["day", "2026-10-19"], ["day", "2026-10-20"], ["day", "2026-10-05"],
+    ["week", W43], ["week", W41], ["month", "2026-10"],
+  ];
+  for (const [kind, key] of buckets) await saveSummary(G, kind, key, all);
+  await getVectorStore().upsert(G, buckets.map(([kind, key]) => ({ id: `summary:${kind}:${key}`, values: new Array(8).fill(0.5), metadata: { type: kind } })));
+}
+
+async function summaryIds(): Promise<string[]> {
+  return (await getVectorStore().list(G)).map(m => m.id).filter(id => id.startsWith("summary:")).sort();
+}
+
+test("deleting a message removes its own chunk and attachment vectors only", async () => {
+  const v = (id: string) => ({ id, values: new Array(8).fill(0.5), metadata: { type: "message_chunk" } });
+  await getVectorStore().upsert("g-vec", ["msg:m1", "chunk:m1:0", "chunk:m1:1", "file:m1:a1", "msg:m10", "chunk:m10:0", "file:m10:a1"].map(v));
+  const res = await deleteMessage("g-vec", "m1");
+  assert.equal(res.indexed, false);
+  assert.deepEqual((await getVectorStore().list("g-vec")).map(m => m.id).sort(), ["chunk:m10:0", "file:m10:a1", "msg:m10"]);
+});
+
+test("deleted messages leave thread and rollup summaries, or lose them when nothing is left", async () => {
+  await ingest();
+
+  // The thread keeps m2, so its summary is rebuilt without m1
+  const first = await deleteMessage(G, "m1");
+  assert.equal(first.indexed, true);
+  assert.equal(first.threadSummary, "rebuilt");
+  const rebuilt = fs.readFileSync(summaryFile("thread", "t1"), "utf8");
+  assert.match(rebuilt, /blue pot/);
+  assert.doesNotMatch(rebuilt, /lake house/);
+
+  // Its last message gone, the thread loses its summary
+  const second = await deleteMessage(G, "m2");
+  assert.equal(second.threadSummary, "deleted");
+  assert.equal(fs.existsSync(summaryFile("thread", "t1")), false);
+
+  // The rollup drops the emptied days and week and rebuilds the month from what remains
+  const state = await loadRollupState(G);
+  assert.deepEqual([...state.days].sort(), ["2026-10-19", "2026-10-20"]);
+  await saveRollupState(G, { ...state, firstMarkedAt: 0, lastMarkedAt: 0 });
+  await handleRollupMessage({ grantId: G, requestedAt: Date.now() }, ctx);
+
+  assert.deepEqual(await summaryIds(), [
+    "summary:day:2026-10-05",
+    "summary:month:2026-10",
+    "summary:thread:t2",
+    `summary:week:${W41}`,
+  ]);
+  for (const [kind, key] of [["day", "2026-10-19"], ["day", "2026-10-20"], ["week", W43]] as const) {
+    assert.equal(fs.existsSync(summaryFile(kind, key)), false, `${kind} ${key} summary kept`);
+  }
+  const month = fs.readFileSync(summaryFile("month", "2026-10"), "utf8");
+  assert.match(month, /Dentist/);
+  assert.doesNotMatch(month, /lake house|blue pot/);
+});
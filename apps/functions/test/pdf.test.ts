@@ -0,0 +1,215 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import zlib from "node:zlib";
+import { TRUNCATION_MARKER, extractPdfText } from "../shared/pdf";
+
+type PdfObj = string | { dict: string; stream: Buffer };
+
+// Minimal PDF writer for fixtures: objects are numbered from 1 in order; the parser scans objects, so no xref
+function buildPdf(objects: PdfObj[], trailer: string): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  objects.forEach((obj, i) => {
+    if (typeof obj === "string") {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${obj}\nendobj\n`, "latin1"));
+    } else {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n<< ${obj.dict} /Length ${obj.stream.length} >>\nstream\n`, "latin1"));
+      parts.push(obj.stream, Buffer.from("\nendstream\nendobj\n", "latin1"));
+    }
+  });
+  parts.push(Buffer.from(`trailer\n<< ${trailer} >>\n%%EOF\n`, "latin1"));
+  return Buffer.concat(parts);
+}
+
+const flate = (content: string): PdfObj => ({ dict: "/Filter /FlateDecode", stream: zlib.deflateSync(Buffer.from(content, "latin1")) });
+const plain = (content: string): PdfObj => ({ dict: "", stream: Buffer.from(content, "latin1") });
+const FONT = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+
+test("pages come out in page-tree order with Flate-decoded text", () => {
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      // Kids list page 2 (object 5) before page 1 (object 4)
+      "<< /Type /Pages /Kids [5 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 3 0 R >> >> >>",
+      FONT,
+      "<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>",
+      flate("BT /F1 12 Tf 72 720 Td (Second page) Tj ET"),
+      flate("BT /F1 12 Tf 72 720 Td (First page) Tj ET"),
+    ],
+    "/Root 1 0 R"
+  );
+  const { pages, encrypted } = extractPdfText(pdf);
+  assert.equal(encrypted, false);
+  assert.deepEqual(pages, ["First page", "Second page"]);
+});
+
+test("positioning operators become line breaks and wide TJ gaps become spaces", () => {
+  const content = [
+    "BT /F1 12 Tf 72 720 Td",
+    "[(Invoice) -250 (#42)] TJ",
+    "0 -14 Td (Total: \\(EUR\\) 10) Tj",
+    "T* (Due) Tj (soon) '",
+    "ET",
+  ].join("\n");
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+      plain(content),
+      FONT,
+    ],
+    "/Root 1 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf).pages, ["Invoice #42\nTotal: (EUR) 10\nDue\nsoon"]);
+});
+
+test("document info strings are decoded from PDFDocEncoding and UTF-16BE", () => {
+  const utf16 = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from("Zoë Ünal", "utf16le").swap16()]).toString("hex");
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [] /Count 0 >>",
+      `<< /Title (Quarterly \\(Q3\\) report) /Author <${utf16}> /CreationDate (D:20250301120000Z) /Subject () >>`,
+    ],
+    "/Root 1 0 R /Info 3 0 R"
+  );
+  const { info, pages } = extractPdfText(pdf);
+  assert.deepEqual(pages, []);
+  assert.deepEqual(info, { title: "Quarterly (Q3) report", author: "Zoë Ünal", creationDate: "D:20250301120000Z" });
+});
+
+test("Type0 fonts are mapped through their ToUnicode CMap", () => {
+  const cmap = [
+    "begincmap",
+    "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+    "1 beginbfchar <0001> <0048> endbfchar",
+    "1 beginbfrange <0002> <0003> <0069> endbfrange",
+    "endcmap",
+  ].join("\n");
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+      flate("BT /F1 12 Tf 72 720 Td <000100020003> Tj ET"),
+      "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 6 0 R >>",
+      flate(cmap),
+    ],
+    "/Root 1 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf).pages, ["Hij"]);
+});
+
+test("text inside Form XObjects is included", () => {
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 6 0 R >> /XObject << /Hdr 5 0 R >> >> /Contents 4 0 R >>",
+      plain("/Hdr Do BT /F1 12 Tf 72 700 Td (Body text) Tj ET"),
+      { dict: "/Type /XObject /Subtype /Form /BBox [0 0 612 792]", stream: Buffer.from("BT /F1 9 Tf 72 760 Td (CONFIDENTIAL) Tj ET", "latin1") },
+      FONT,
+    ],
+    "/Root 1 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf).pages, ["CONFIDENTIAL\nBody text"]);
+});
+
+test("encrypted documents report encrypted without page text", () => {
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>",
+      plain("BT (scrambled) Tj ET"),
+      "<< /Filter /Standard /V 2 /R 3 >>",
+      "<< /Title (Locked) >>",
+    ],
+    "/Root 1 0 R /Encrypt 5 0 R /Info 6 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf), { pages: [], info: { title: "Locked" }, encrypted: true, truncated: false });
+});
+
+test("a stream that inflates past the size cap is skipped and the rest of the document still extracts", { timeout: 30_000 }, () => {
+  // Tiny compressed, 65 MB inflated (just over MAX_STREAM_BYTES) of text operators that would flood the page if decoded
+  const bomb = zlib.deflateSync(Buffer.alloc(65 * 1024 * 1024, "BT (boom) Tj ET\n"), { level: 9 });
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents [6 0 R 8 0 R] >>",
+      { dict: "/Filter /FlateDecode", stream: bomb },
+      flate("BT /F1 12 Tf 72 720 Td (Still readable) Tj ET"),
+      FONT,
+      { dict: "/Filter /FlateDecode", stream: bomb },
+    ],
+    "/Root 1 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf).pages, ["", "Still readable"]);
+});
+
+test("extraction stops with a marker once the document's inflated bytes run out", () => {
+  // Each page inflates 40 KB; a 100 KB budget covers two pages and runs out inside the third
+  const page = flate(`BT /F1 12 Tf 72 720 Td (Page text) Tj ET ${" ".repeat(40 * 1024)}`);
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R 5 0 R 6 0 R] /Count 4 /Resources << /Font << /F1 7 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+      FONT,
+      page,
+    ],
+    "/Root 1 0 R"
+  );
+  const out = extractPdfText(pdf, { maxInflatedBytes: 100 * 1024, maxTextChars: 1_000_000 });
+  assert.equal(out.truncated, true);
+  assert.deepEqual(out.pages, ["Page text", "Page text", TRUNCATION_MARKER]);
+  assert.equal(extractPdfText(pdf).truncated, false);
+});
+
+test("extraction stops with a marker once the document's text runs out", () => {
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R 5 0 R] /Count 3 /Resources << /Font << /F1 6 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>",
+      FONT,
+      plain("BT /F1 12 Tf 72 720 Td (First page) Tj ET"),
+      plain("BT /F1 12 Tf 72 720 Td (Second page runs long) Tj ET"),
+    ],
+    "/Root 1 0 R"
+  );
+  const out = extractPdfText(pdf, { maxInflatedBytes: 1024 * 1024, maxTextChars: 20 });
+  assert.equal(out.truncated, true);
+  assert.deepEqual(out.pages, ["First page", `Second pag\n${TRUNCATION_MARKER}`]);
+});
+
+test("a truncated Flate stream still yields the text that decodes", () => {
+  const full = zlib.deflateSync(Buffer.from("BT /F1 12 Tf 72 720 Td (Partial content survives) Tj ET " + " ".repeat(2000), "latin1"));
+  const pdf = buildPdf(
+    [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+      { dict: "/Filter /FlateDecode", stream: full.subarray(0, full.length - 6) },
+      FONT,
+    ],
+    "/Root 1 0 R"
+  );
+  assert.deepEqual(extractPdfText(pdf).pages, ["Partial content survives"]);
+});
+
+test("input that isn't a PDF never throws", () => {
+  for (const buf of [Buffer.alloc(0), Buffer.from("not a pdf at all"), Buffer.from("%PDF-1.7\n1 0 obj << /Type /Catalog")]) {
+    const out = extractPdfText(buf);
+    assert.deepEqual(out.pages, []);
+    assert.equal(out.encrypted, false);
+  }
+});
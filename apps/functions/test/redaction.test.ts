@@ -0,0 +1,129 @@
+import { dataFile } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { sealedKeyId } from "../shared/encryption";
+import { registerGrant } from "../shared/grantRegistry";
+import { formatRedactionCounts, getRedactor, parseRedactionPolicy, redactionPolicyFromEnv, type Redactor } from "../shared/redaction";
+import { loadRedactionVault } from "../shared/storage";
+
+// Read on first use, so setting it after the imports is early enough; each test sets the REDACTION_* defaults it relies on
+process.env.STORAGE_MASTER_KEY = crypto.randomBytes(32).toString("base64");
+
+const vaultFile = (grantId: string) => dataFile("grants", grantId, "redactions", "vault.json");
+
+async function redactorFor(grantId: string): Promise<Redactor> {
+  delete process.env.REDACTION_TYPES;
+  delete process.env.REDACTION_IMAGES;
+  const redactor = await getRedactor(grantId);
+  assert.ok(redactor);
+  return redactor;
+}
+
+test("the env policy defaults to every type and can be narrowed or turned off", () => {
+  delete process.env.REDACTION_TYPES;
+  delete process.env.REDACTION_IMAGES;
+  assert.deepEqual(redactionPolicyFromEnv(), { types: ["card", "ssn", "phone", "otp"], images: "send" });
+  process.env.REDACTION_TYPES = " Card, otp ,bogus";
+  process.env.REDACTION_IMAGES = "skip";
+  assert.deepEqual(redactionPolicyFromEnv(), { types: ["card", "otp"], images: "skip" });
+  process.env.REDACTION_TYPES = "none";
+  assert.deepEqual(redactionPolicyFromEnv().types, []);
+});
+
+test("per-grant overrides are validated", () => {
+  assert.deepEqual(parseRedactionPolicy({ types: ["ssn", "ssn", "phone"] }), { types: ["ssn", "phone"] });
+  assert.deepEqual(parseRedactionPolicy({ images: "skip" }), { images: "skip" });
+  assert.deepEqual(parseRedactionPolicy({}), {});
+  assert.throws(() => parseRedactionPolicy(null), /must be an object/);
+  assert.throws(() => parseRedactionPolicy(["card"]), /must be an object/);
+  assert.throws(() => parseRedactionPolicy({ types: "card" }), /must be an array/);
+  assert.throws(() => parseRedactionPolicy({ types: ["card", "iban"] }), /Unknown redaction type\(s\) iban/);
+  assert.throws(() => parseRedactionPolicy({ images: "blur" }), /"send" or "skip"/);
+});
+
+test("cards are redacted only when they pass the Luhn check", async () => {
+  const r = await redactorFor("g-card");
+  const out = await r.redact("Card 4111 1111 1111 1111 and 4111-1111-1111-1112, order 4111111111111111.");
+  assert.match(out, /^Card \[CARD_[0-9a-f]{10}\] and 4111-1111-1111-1112, order \[CARD_[0-9a-f]{10}\]\.$/);
+  // Same digits, different separators: same placeholder
+  const [a, b] = out.match(/\[CARD_[0-9a-f]{10}\]/g)!;
+  assert.equal(a, b);
+  assert.equal(r.counts.card, 2);
+});
+
+test("SSNs, separated phone numbers and international numbers are redacted; bare digit runs are not", async () => {
+  const r = await redactorFor("g-mixed");
+  const out = await r.redact(
+    "SSN 123-45-6789, not 000-12-3456. Call (415) 555-0132 or +1 415.555.0199 or +44 20 7946 0958. Order #20261019123 ships."
+  );
+  assert.match(out, /^SSN \[SSN_[0-9a-f]{10}\], not 000-12-3456\. /);
+  assert.match(out, /Call \[PHONE_[0-9a-f]{10}\] or \[PHONE_[0-9a-f]{10}\] or \[PHONE_[0-9a-f]{10}\]\. /);
+  assert.match(out, /Order #20261019123 ships\.$/);
+  assert.equal(formatRedactionCounts(r), "card=0 ssn=1 phone=3 otp=0");
+});
+
+test("one-time codes are redacted next to a code cue in either order", async () => {
+  const r = await redactorFor("g-otp");
+  assert.match(await r.redact("Your verification code is 482913."), /^Your verification code is \[OTP_[0-9a-f]{10}\]\.$/);
+  assert.match(await r.redact("731904 is your sign-in code"), /^\[OTP_[0-9a-f]{10}\] is your sign-in code$/);
+  assert.equal(await r.redact("Meeting moved to room 4821 on floor 3."), "Meeting moved to room 4821 on floor 3.");
+});
+
+test("placeholders restore to the originals, are stable per grant and differ between grants", async () => {
+  const text = "Reach me at (212) 555-0147, code 5521 is your code.";
+  const first = await redactorFor("g-stable");
+  const redacted = await first.redact(text);
+  assert.doesNotMatch(redacted, /555-0147|5521/);
+  assert.equal(await first.restore(`Summary: call ${redacted}`), `Summary: call ${text}`);
+  assert.equal(await first.restore("Unknown [PHONE_ffffffffff] stays"), "Unknown [PHONE_ffffffffff] stays");
+
+  // A later redactor (another job) maps the same values to the same placeholders and restores them from the vault
+  const second = await redactorFor("g-stable");
+  assert.equal(await second.redact(text), redacted);
+  assert.equal(await second.restore(redacted), text);
+
+  const other = await redactorFor("g-other");
+  assert.notEqual(await other.redact(text), redacted);
+});
+
+test("a restore picks up placeholders another worker added after the redactor loaded the vault", async () => {
+  const reader = await redactorFor("g-shared");
+  await reader.redact("SSN 219-09-9999");
+  const writer = await redactorFor("g-shared");
+  const redacted = await writer.redact("Card 5555 5555 5555 4444");
+  assert.equal(await reader.restore(redacted), "Card 5555 5555 5555 4444");
+});
+
+test("the vault keeps originals sealed on disk and is only created once something is redacted", async () => {
+  const r = await redactorFor("g-vault");
+  assert.equal(await r.redact("Nothing sensitive here, see you at 10."), "Nothing sensitive here, see you at 10.");
+  assert.equal(fs.existsSync(vaultFile("g-vault")), false);
+
+  const redacted = await r.redact("SSN 078-05-1120");
+  const raw = fs.readFileSync(vaultFile("g-vault"));
+  assert.match(sealedKeyId(raw), /^[0-9a-f]{8}$/);
+  assert.equal(raw.indexOf("078-05-1120"), -1);
+  const vault = await loadRedactionVault("g-vault");
+  const token = redacted.replace("SSN ", "");
+  assert.equal(vault?.entries[token]?.value, "078-05-1120");
+  assert.equal(vault?.entries[token]?.type, "ssn");
+});
+
+test("the grant's registry override wins over the env defaults", async () => {
+  delete process.env.REDACTION_TYPES;
+  delete process.env.REDACTION_IMAGES;
+  await registerGrant({ grantId: "g-policy", redaction: { types: ["ssn"], images: "skip" } });
+  const r = await getRedactor("g-policy");
+  assert.deepEqual(r?.policy, { types: ["ssn"], images: "skip" });
+  assert.match(await r!.redact("SSN 123-45-6789, call 415-555-0132"), /^SSN \[SSN_[0-9a-f]{10}\], call 415-555-0132$/);
+
+  // No text types and images sent: nothing to do, so no redactor
+  await registerGrant({ grantId: "g-policy", redaction: { types: [], images: "send" } });
+  assert.equal(await getRedactor("g-policy"), null);
+  // Images skipped but no text types: a redactor that leaves text alone
+  await registerGrant({ grantId: "g-policy", redaction: { types: [], images: "skip" } });
+  const imagesOnly = await getRedactor("g-policy");
+  assert.equal(await imagesOnly?.redact("SSN 123-45-6789"), "SSN 123-45-6789");
+});
@@ -0,0 +1,34 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+
+// Import this first in tests that touch storage: storage.ts reads DATA_DIR when it loads. Each test file runs in
+// its own process, so each gets its own data directory on local disk.
+export const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "functions-test-"));
+process.env.DATA_DIR = DATA_DIR;
+process.env.STORAGE_BACKEND = "fs";
+// Modules that register queue triggers pick the queue when they load; jobs land under DATA_DIR/queues
+process.env.JOB_QUEUE = "local";
+process.on("exit", () => fs.rmSync(DATA_DIR, { recursive: true, force: true }));
+
+/** Absolute path of a stored object, e.g. dataFile("grants", "g1", "days", "2026-10-19", "notes.jsonl"). */
+export function dataFile(...parts: string[]): string {
+  return path.join(DATA_DIR, ...parts);
+}
+
+/**
+ * Run `code` in a fresh Node process over the same DATA_DIR with `env` applied (a null value unsets it), for
+ * settings a module caches for the life of the process such as the master keys. `storage` is bound to the
+ * compiled shared/storage; whatever the code prints to stdout is returned.
+ */
+export function runInChild(env: Record<string, string | null>, code: string): string {
+  const childEnv: NodeJS.ProcessEnv = { ...process.env };
+  for (const [k, v] of Object.entries(env)) {
+    if (v === null) delete childEnv[k];
+    else childEnv[k] = v;
+  }
+  const storagePath = JSON.stringify(path.join(__dirname, "..", "shared", "storage"));
+  const script = `const storage = require(${storagePath});\n(async () => {\n${code}\n})().catch(e => { console.error(e?.message || e); process.exit(1); });`;
+  return execFileSync(process.execPath, ["-e", script], { env: childEnv, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] });
+}
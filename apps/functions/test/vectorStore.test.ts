@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collapseChunkMatches, matchesFilter } from "../shared/vectorStore";
+
+const md = { type: "message", from_domain: "example.com", date_created: "2026-10-19T09:00:00Z", size: 42, folders: ["INBOX", "Label_7"], unread: true };
+
+test("metadata filters follow Pinecone semantics", () => {
+  assert.equal(matchesFilter(md, undefined), true);
+  assert.equal(matchesFilter(md, { type: "message", unread: true }), true);
+  assert.equal(matchesFilter(md, { type: "thread" }), false);
+  assert.equal(matchesFilter(md, { type: { $in: ["message", "thread"] }, size: { $gte: 42, $lt: 100 } }), true);
+  assert.equal(matchesFilter(md, { type: { $nin: ["message"] } }), false);
+  assert.equal(matchesFilter(md, { date_created: { $gte: "2026-10-01", $lte: "2026-10-31" } }), true);
+  assert.equal(matchesFilter(md, { date_created: { $gt: "2026-10-20" } }), false);
+  assert.equal(matchesFilter(md, { bucket: { $exists: false }, from_domain: { $ne: "spam.test" } }), true);
+  // List-valued fields match when any element does
+  assert.equal(matchesFilter(md, { folders: "INBOX" }), true);
+  assert.equal(matchesFilter(md, { folders: { $in: ["SENT", "Label_7"] } }), true);
+  assert.equal(matchesFilter(md, { $or: [{ type: "thread" }, { size: { $gt: 40 } }] }), true);
+  assert.equal(matchesFilter(md, { $and: [{ type: "message" }, { unread: false }] }), false);
+  assert.equal(matchesFilter(undefined, { type: { $exists: true } }), false);
+  assert.throws(() => matchesFilter(md, { size: { $regex: "4" } as never }), /Unsupported filter operator \$regex/);
+});
+
+test("chunk hits fold into their parent message with the best score", () => {
+  const out = collapseChunkMatches([
+    { id: "chunk:m1:1", score: 0.9, metadata: { type: "message_chunk", message_id: "m1", chunk_index: 1, chunk_start: 3500, chunk_end: 7000, snippet: "second part" } },
+    { id: "msg:m2", score: 0.8, metadata: { type: "message", subject: "Other" } },
+    { id: "msg:m1", score: 0.5, metadata: { type: "message", subject: "Parent" } },
+  ]);
+  assert.deepEqual(out.map(m => [m.id, m.score, m.metadata?.subject ?? null]), [["msg:m1", 0.9, "Parent"], ["msg:m2", 0.8, "Other"]]);
+  assert.deepEqual(out[0].matched_chunks, [{ index: 1, start: 3500, end: 7000, score: 0.9, snippet: "second part" }]);
+});
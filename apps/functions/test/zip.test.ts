@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { openZip } from "../shared/zip";
+import { buildZip } from "./fixtures";
+
+test("stored and deflated entries are listed and read back", () => {
+  const zip = openZip(
+    buildZip([
+      { name: "a.txt", data: "stored bytes", store: true },
+      { name: "dir/b.xml", data: "<x>" + "deflated ".repeat(100) + "</x>" },
+      { name: "ünïcode.txt", data: "name is utf-8" },
+    ])
+  );
+  assert.deepEqual(zip.names, ["a.txt", "dir/b.xml", "ünïcode.txt"]);
+  assert.equal(zip.read("a.txt")?.toString(), "stored bytes");
+  assert.equal(zip.read("dir/b.xml")?.toString(), "<x>" + "deflated ".repeat(100) + "</x>");
+  assert.equal(zip.read("ünïcode.txt")?.toString(), "name is utf-8");
+});
+
+test("missing entries read as null", () => {
+  const zip = openZip(buildZip([{ name: "only.txt", data: "x" }]));
+  assert.equal(zip.read("other.txt"), null);
+});
+
+test("a trailing archive comment doesn't hide the central directory", () => {
+  const base = buildZip([{ name: "c.txt", data: "commented" }]);
+  const comment = Buffer.from("archive comment");
+  base.writeUInt16LE(comment.length, base.length - 2);
+  const zip = openZip(Buffer.concat([base, comment]));
+  assert.equal(zip.read("c.txt")?.toString(), "commented");
+});
+
+test("unsupported compression methods read as null", () => {
+  const buf = buildZip([{ name: "bz.bin", data: "pretend bzip2", store: true }]);
+  // Patch the method in the central directory record to 12 (bzip2)
+  const central = buf.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+  buf.writeUInt16LE(12, central + 10);
+  assert.equal(openZip(buf).read("bz.bin"), null);
+});
+
+test("buffers without an end of central directory are rejected", () => {
+  assert.throws(() => openZip(Buffer.from("definitely not a zip file, just text")), /Not a ZIP archive/);
+  assert.throws(() => openZip(Buffer.alloc(0)), /Not a ZIP archive/);
+});
+
+test("an entry that inflates past the size cap throws instead of allocating it", () => {
+  const bomb = buildZip([{ name: "bomb.xml", data: Buffer.alloc(65 * 1024 * 1024, 0x41) }]);
+  assert.ok(bomb.length < 1024 * 1024);
+  assert.throws(() => openZip(bomb).read("bomb.xml"), (e: NodeJS.ErrnoException) => e.code === "ERR_BUFFER_TOO_LARGE");
+});
@@ -67,6 +67,7 @@ Write-Host "Configuring app settings..." -ForegroundColor Yellow
 $settings = @(
     "SERVICEBUS_CONNECTION=$sbConnStr",
     "SB_QUEUE_BACKFILL=$QueueName",
+    "SB_QUEUE_ROLLUP=nylas-rollup",
     "NYLAS_API_KEY=$nylasApiKey",
     "NYLAS_GRANT_ID=$nylasGrantId",
     "NYLAS_BASE=https://api.us.nylas.com/v3",
@@ -26,6 +26,7 @@ if (Test-Path ".env") {
 $settings = @(
     "SERVICEBUS_CONNECTION=$ServiceBusConnStr",
     "SB_QUEUE_BACKFILL=nylas-backfill",
+    "SB_QUEUE_ROLLUP=nylas-rollup",
     "NYLAS_API_KEY=$($envVars['NYLAS_API_KEY'])",
     "NYLAS_GRANT_ID=$($envVars['NYLAS_GRANT_ID'])",
     "NYLAS_BASE=https://api.us.nylas.com/v3",
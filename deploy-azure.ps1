@@ -13,6 +13,7 @@ $funcAppName = "func-email-agent-$(Get-Random -Minimum 1000 -Maximum 9999)"
 $storageAccount = "stemail$(Get-Random -Minimum 100000 -Maximum 999999)"
 $appInsightsName = "ai-email-agent-$(Get-Random -Minimum 1000 -Maximum 9999)"
 $queueName = "nylas-backfill"
+$rollupQueueName = "nylas-rollup"
 
 Write-Host "=== Azure Deployment Starting ===" -ForegroundColor Green
 Write-Host "Subscription: $SubscriptionId"
@@ -69,6 +70,16 @@ az servicebus queue create `
     --max-delivery-count 10 `
     --default-message-time-to-live PT1H 2>&1 | Out-Null
 
+# Create rollup queue (day/week/month rebuilds, one session per grant)
+Write-Host "Creating rollup queue with sessions enabled..." -ForegroundColor Cyan
+az servicebus queue create `
+    --name $rollupQueueName `
+    --namespace-name $sbNamespace `
+    --resource-group $ResourceGroup `
+    --requires-session `
+    --max-delivery-count 10 `
+    --default-message-time-to-live PT1H 2>&1 | Out-Null
+
 # Get Service Bus connection string
 Write-Host "Getting Service Bus connection string..." -ForegroundColor Cyan
 $sbConnStr = az servicebus namespace authorization-rule keys list `
@@ -1,25 +1,24 @@
-// OpenAI Embeddings via REST fetch to avoid extra deps
-// Requires: process.env.OPENAI_API_KEY
+// Model calls for the dev server, through the Functions app's LlmProvider (apps/functions/shared/llm.ts):
+// LLM_PROVIDER=openai (default, or any OpenAI-compatible endpoint at LLM_BASE_URL) or LLM_PROVIDER=local.
+// Using the same provider keeps local embeddings identical, so both processes can share a local vector index.
 
-const OPENAI_EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+import { requireShared } from './functionsShared.js';
+
+let provider = null;
+
+function getProvider() {
+  if (provider) return provider;
+  // EMBEDDING_MODEL is the dev server's older name for OPENAI_EMBED_MODEL
+  if (!process.env.OPENAI_EMBED_MODEL && process.env.EMBEDDING_MODEL) process.env.OPENAI_EMBED_MODEL = process.env.EMBEDDING_MODEL;
+  provider = requireShared('llm').getLlmProvider();
+  return provider;
+}
 
 export async function embedTexts(texts) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('Missing OPENAI_API_KEY env');
-  }
-  const r = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input: texts }),
-  });
-  if (!r.ok) {
-    const errText = await r.text();
-    throw new Error(`OpenAI embeddings failed ${r.status}: ${errText}`);
-  }
-  const json = await r.json();
-  return json.data.map((d) => d.embedding);
+  return texts.length ? getProvider().embed(texts) : [];
 }
 
+/** Follow `instructions` over `text`; the local provider ignores instructions and summarizes `text` extractively. */
+export async function summarizeText(text, instructions = '') {
+  return getProvider().summarize(text, instructions);
+}
@@ -0,0 +1,20 @@
+// Loads modules from the Functions app's build output (apps/functions/dist), so the dev server runs the same
+// vector store and model provider code instead of a copy. Build first: npm --prefix apps/functions run build
+//
+// Callers require on first use rather than at import: server.js loads .env after its imports, and the compiled
+// modules read some settings when they load.
+
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+export function requireShared(name) {
+  try {
+    return require(`../apps/functions/dist/shared/${name}.js`);
+  } catch (e) {
+    if (e?.code === 'MODULE_NOT_FOUND' && String(e.message).includes(`dist/shared/${name}.js`)) {
+      throw new Error(`apps/functions is not built (missing dist/shared/${name}.js); run npm --prefix apps/functions run build`);
+    }
+    throw e;
+  }
+}
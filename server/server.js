@@ -13,8 +13,8 @@ console.log(`[server] .env loaded: ${envResult.parsed ? Object.keys(envResult.pa
 import http from 'node:http';
 import { URL } from 'node:url';
 import crypto from 'node:crypto';
-import { embedTexts } from './embedding.js';
-import { upsertVectors, queryTopK } from './pineconeClient.js';
+import { embedTexts, summarizeText } from './embedding.js';
+import { getVectorStore } from './vectorStore.js';
 import { listContacts, listEvents, listUnreadMessages, listMessagesPage } from './nylasClient.js';
 import { reloadGrantsFromEnv } from './nylasConfig.js';
 
@@ -166,7 +166,7 @@ const server = http.createServer(async (req, res) => {
           });
         }
       }
-      if (records.length) await upsertVectors(records, namespace);
+      if (records.length) await getVectorStore().upsert(namespace, records);
       res.writeHead(200, { 'content-type': 'application/json' });
       res.end(JSON.stringify({ upserted: records.length }));
     } catch (e) {
@@ -186,15 +186,15 @@ const server = http.createServer(async (req, res) => {
     const namespace = body?.namespace || process.env.NYLAS_GRANT_ID || '';
 
 
-    const pineconeReady = !!(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX_HOST);
+    const store = getVectorStore();
 
-    if (!pineconeReady) {
+    if (!store.ready) {
       // Fallback stub
       const results = [
         { type: 'email', id: 'example-1', thread_id: 't-1', title: 'Welcome to your Voice Agent', snippet: `Sample result for: ${text}`, from: 'agent@example.com', date: Math.floor(Date.now() / 1000) },
       ];
       res.writeHead(200, { 'content-type': 'application/json' });
-      res.end(JSON.stringify({ results, total: 1, note: 'Pinecone not configured; returning stub results.' }));
+      res.end(JSON.stringify({ results, total: 1, note: 'Vector store not configured; returning stub results.' }));
       return;
     }
 
@@ -207,8 +207,7 @@ const server = http.createServer(async (req, res) => {
         filter.type = { $eq: 'message' };
       }
       // Query with larger topK to get total count
-      const q = await queryTopK(embedding, Math.max(topK, 100), namespace, true, filter);
-      const allMatches = q?.matches || [];
+      const allMatches = await store.query(namespace, { vector: embedding, topK: Math.max(topK, 100), filter });
       const total = allMatches.length;
 
       // Return top 10 with full metadata
@@ -248,8 +247,7 @@ const server = http.createServer(async (req, res) => {
 
       // Use a neutral embedding and rely on filter + topK sample
       const [embedding] = await embedTexts(['aggregate']);
-      const q = await queryTopK(embedding, topK, namespace, true, filter);
-      const matches = Array.isArray(q?.matches) ? q.matches : [];
+      const matches = await getVectorStore().query(namespace, { vector: embedding, topK, filter });
 
       const total = matches.length;
       let groups = [];
@@ -292,11 +290,8 @@ const server = http.createServer(async (req, res) => {
       if (filter && typeof filter === 'object' && !('type' in filter)) {
         filter.type = { $eq: 'message' };
       }
-      // Query with a dummy vector to get count (Pinecone returns top_k results)
-      // Use max top_k (10000) to approximate total count
-      const dummyVector = new Array(1536).fill(0.1);
-      const results = await queryTopK(dummyVector, 10000, namespace, true, filter);
-      const total = results?.matches?.length || 0;
+      // Pinecone lists matching ids page by page and counts them; the local store counts exactly
+      const total = await getVectorStore().count(namespace, filter);
       res.writeHead(200, { 'content-type': 'application/json' });
       res.end(JSON.stringify({ total }));
     } catch (e) {
@@ -306,7 +301,7 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
-  // POST /email/analyze (summarize topK results using OpenAI)
+  // POST /email/analyze (summarize topK results with the configured model provider)
   if (req.method === 'POST' && url.pathname === '/email/analyze') {
     try {
       const body = await readJson(req);
@@ -319,49 +314,17 @@ const server = http.createServer(async (req, res) => {
         filter.type = { $eq: 'message' };
       }
 
-      if (!process.env.OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
       const [embedding] = await embedTexts([text || 'summarize emails']);
-      const q = await queryTopK(embedding, topK, namespace, true, filter);
-      const matches = Array.isArray(q?.matches) ? q.matches : [];
+      const matches = await getVectorStore().query(namespace, { vector: embedding, topK, filter });
       const lines = matches.map((m, i) => `- ${i + 1}. ${String(m?.metadata?.subject || m?.id)} :: score=${m?.score ?? ''}`);
 
-      const prompt = [
+      const instructions = [
         'Summarize the following retrieved emails into:',
         '1) 3-7 actionable bullets',
         '2) One executive paragraph',
         '3) Up to 8 tags',
-        '',
-        'Results:',
-        lines.join('\n'),
       ].join('\n');
-
-      const r = await fetch('https://api.openai.com/v1/responses', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ model: 'gpt-5-mini', input: prompt }),
-      });
-      const json = await r.json();
-      let summary = '';
-      if (json?.output_text) {
-        summary = json.output_text;
-      } else if (Array.isArray(json?.output)) {
-        const parts = [];
-        for (const out of json.output) {
-          for (const c of out?.content || []) {
-            if (typeof c?.text === 'string') parts.push(c.text);
-          }
-        }
-        summary = parts.join('\n').trim();
-      } else if (Array.isArray(json?.content)) {
-        const parts = [];
-        for (const c of json.content) {
-          if (typeof c?.text === 'string') parts.push(c.text);
-        }
-        summary = parts.join('\n').trim();
-      }
+      const summary = await summarizeText(`Results:\n${lines.join('\n')}`, instructions);
 
       res.writeHead(200, { 'content-type': 'application/json' });
       res.end(JSON.stringify({ summary, count: matches.length }));
@@ -488,7 +451,7 @@ const server = http.createServer(async (req, res) => {
               },
             });
           }
-          await upsertVectors(records, grantId);
+          await getVectorStore().upsert(grantId, records);
           upserted += msgsWithChunks;
         }
 
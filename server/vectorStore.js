@@ -0,0 +1,33 @@
+// Vector store for the dev server: the Functions app's VectorStore (apps/functions/shared/vectorStore.ts), so
+// filters, the local index format and Pinecone access have one implementation.
+// - VECTOR_STORE=pinecone (default): needs PINECONE_API_KEY and PINECONE_INDEX_NAME (PINECONE_INDEX_HOST optional)
+// - VECTOR_STORE=local: DATA_DIR/vectors/<namespace>.jsonl, shared with the Functions host when DATA_DIR matches
+
+import { requireShared } from './functionsShared.js';
+
+let store = null;
+
+export function getVectorStore() {
+  if (store) return store;
+  const shared = requireShared('vectorStore').getVectorStore();
+  store = {
+    kind: shared.kind,
+    // Without Pinecone settings the search route answers with stub results instead of failing
+    get ready() {
+      return shared.kind === 'local' || Boolean(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX_NAME);
+    },
+    // The shared store reports per-record failures; the routes here expect a throw
+    async upsert(namespace, vectors) {
+      const report = await shared.upsert(namespace, vectors);
+      if (report.failed.length) {
+        throw new Error(`Vector upsert failed for ${report.failed.length}/${report.attempted} records: ${report.failed[0].error}`);
+      }
+      return { upserted: report.succeeded.length };
+    },
+    query: (namespace, opts) => shared.query(namespace, opts),
+    delete: (namespace, ids) => shared.delete(namespace, ids),
+    list: (namespace, opts) => shared.list(namespace, opts),
+    count: (namespace, filter) => shared.count(namespace, filter),
+  };
+  return store;
+}
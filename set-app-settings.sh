@@ -31,6 +31,7 @@ az functionapp config appsettings set \
   --settings \
     SERVICEBUS_CONNECTION="$SB_CONN_STR" \
     SB_QUEUE_BACKFILL="$QUEUE_NAME" \
+    SB_QUEUE_ROLLUP="nylas-rollup" \
     NYLAS_API_KEY="$NYLAS_API_KEY" \
     NYLAS_GRANT_ID="$NYLAS_GRANT_ID" \
     NYLAS_BASE="https://api.us.nylas.com/v3" \
@@ -386,6 +386,35 @@ const startBackfill = tool({
   },
 });
 
+// Backfill/delta progress recorded by the Functions worker
+export async function fetchSyncStatus(grantId: string): Promise<any> {
+  const res = await fetch(`${FUNCTIONS_BASE}/api/sync/status/${encodeURIComponent(grantId)}`);
+  if (res.status === 404) return { ok: false, grantId, state: 'none' };
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  return res.json();
+}
+
+const syncStatusTool = tool({
+  name: 'sync_status',
+  description: 'Check progress of the latest backfill/delta sync for a grant (pages, processed/max, vectors, state)',
+  parameters: z.object({ grantId: z.string() }),
+  async execute({ grantId }) {
+    const _t0 = (globalThis.performance?.now?.() ?? Date.now());
+    const params = { grantId };
+    try {
+      const data = await fetchSyncStatus(grantId);
+      const duration = Math.round((globalThis.performance?.now?.() ?? Date.now()) - _t0);
+      onSyncStatus?.(data);
+      logToolCall('sync_status', params, data, duration);
+      return data;
+    } catch (error) {
+      const duration = Math.round((globalThis.performance?.now?.() ?? Date.now()) - _t0);
+      logToolCall('sync_status', params, null, duration, String(error));
+      throw error;
+    }
+  },
+});
+
 const aggregateEmails = tool({
   name: 'aggregate_emails',
   description: 'Aggregate counts grouped by metadata fields over filtered results',
@@ -495,6 +524,6 @@ const countEmails = tool({
 
 
 export function registerTools() {
-  return [searchEmails, aggregateEmails, analyzeEmails, countEmails, listContacts, listEvents, listUnreadMessages, startSync, startBackfill];
+  return [searchEmails, aggregateEmails, analyzeEmails, countEmails, listContacts, listEvents, listUnreadMessages, startSync, startBackfill, syncStatusTool];
 }
 
@@ -2,7 +2,7 @@ import './style.css';
 import typescriptLogo from './typescript.svg';
 import viteLogo from '/vite.svg';
 import { createVoiceSession, setTranscriptHandler } from './lib/voiceAgent';
-import { setSearchResultsHandler, setContactsHandler, setEventsHandler, setUnreadHandler, setSyncStatusHandler, setToolProgressHandler, setEmailMetricsHandler, setToolCallHandler, type ToolCallRecord } from './lib/tools';
+import { setSearchResultsHandler, setContactsHandler, setEventsHandler, setUnreadHandler, setSyncStatusHandler, setToolProgressHandler, setEmailMetricsHandler, setToolCallHandler, fetchSyncStatus, type ToolCallRecord } from './lib/tools';
 
 let session: unknown;
 const toolCallHistory: ToolCallRecord[] = [];
@@ -314,7 +314,42 @@ setUnreadHandler((payload: any) => {
   appendToolUpdate(`list_unread_messages returned ${count} item(s)`);
 });
 
+function formatSyncProgress(s: any): string {
+  if (!s || s.state === 'none') return 'No sync recorded yet';
+  const pct = s.percent != null ? ` (${s.percent}%)` : '';
+  const err = s.lastError ? ` — last error: ${s.lastError}` : '';
+  const failed = s.failedJobs ? `, ${s.failedJobs} failed page(s)` : '';
+  return `Sync ${s.state}: ${s.processed ?? 0}/${s.max ?? '?'} processed${pct}, ${s.pagesDone ?? 0} page(s), ${s.vectorsUpserted ?? 0} vectors${failed}${err}`;
+}
+
+// Poll the Functions status endpoint until the chain settles
+let syncPollTimer: ReturnType<typeof setTimeout> | null = null;
+function pollSyncStatus(grantId: string, intervalMs = 3000) {
+  if (syncPollTimer) clearTimeout(syncPollTimer);
+  const tick = async () => {
+    try {
+      const s = await fetchSyncStatus(grantId);
+      syncStatus.textContent = formatSyncProgress(s);
+      if (s?.state === 'queued' || s?.state === 'running') {
+        syncPollTimer = setTimeout(tick, intervalMs);
+        return;
+      }
+      appendToolUpdate(`sync ${s?.state ?? 'unknown'} for grant ${grantId}`);
+    } catch (e) {
+      console.error(e);
+    }
+    syncPollTimer = null;
+  };
+  void tick();
+}
+
 setSyncStatusHandler((payload: any) => {
+  // Functions responses (backfill_start / sync_status) carry a grantId and can be tracked
+  if (payload?.grantId && (payload?.statusUrl || payload?.state)) {
+    if (payload?.state) syncStatus.textContent = formatSyncProgress(payload);
+    pollSyncStatus(String(payload.grantId));
+    return;
+  }
   const queued = payload?.queued ?? 0;
   syncStatus.textContent = `Sync queued: ${queued}`;
   appendToolUpdate(`sync_start queued ${queued} email(s)`);
@@ -366,6 +401,7 @@ deltaSyncBtn2.addEventListener('click', async () => {
     const data = await res.json();
     syncStatus.textContent = `Delta enqueued for ${grantId}: sinceEpoch=${data?.sinceEpoch ?? 'n/a'}`;
     appendToolUpdate(`delta_start enqueued for grant ${grantId}`);
+    pollSyncStatus(grantId);
   } catch (e) {
     console.error(e);
     syncStatus.textContent = 'Delta sync failed — see console';